@@ -0,0 +1,6 @@
+-- Output filtering hides this high finding; `vibecheck fix` still adds
+-- the ALTER TABLE below the statement.
+CREATE TABLE projects (
+  id uuid primary key,
+  name text not null
+);
@@ -0,0 +1,16 @@
+/**
+ * The directive sits between chars 250 and 300: only
+ * prisma-missing-tenant-filter (300-char window) sees it;
+ * prisma-write-tenant-boundary looks at the first 250 chars.
+ *
+ * ---------------------------------
+ * ---------------------------------
+ */
+"use client";
+
+import { prisma } from "./db";
+
+export async function load() {
+  // expect: prisma-missing-tenant-filter high
+  return prisma.project.findMany({ where: { archived: false } });
+}
@@ -0,0 +1,16 @@
+/**
+ * The directive starts past char 300: neither tenant rule treats the
+ * file as a client component, and components/ is outside the server
+ * paths the tenant heuristics check.
+ *
+ * ----------------------------------------
+ * ----------------------------------------
+ * ----------------------------------------
+ */
+"use client";
+
+import { prisma } from "./db";
+
+export async function load() {
+  return prisma.project.findMany({ where: { archived: false } });
+}
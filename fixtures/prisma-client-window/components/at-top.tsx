@@ -0,0 +1,8 @@
+"use client";
+
+import { prisma } from "./db";
+
+export async function load() {
+  // expect: prisma-missing-tenant-filter high, prisma-write-tenant-boundary high
+  return prisma.project.findMany({ where: { archived: false } });
+}
@@ -0,0 +1,9 @@
+"use client";
+
+import { prisma } from "./db";
+
+export async function load() {
+  // vibecheck:tenant-ok (covers the tenant heuristics, not Prisma in a client component)
+  // expect: prisma-missing-tenant-filter high, prisma-write-tenant-boundary high
+  return prisma.project.findMany({ where: { archived: false } });
+}
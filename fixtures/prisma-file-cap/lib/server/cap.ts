@@ -0,0 +1,50 @@
+// FILE_CAP: at most 6 tenant heuristic findings per file; the 7th call is
+// not reported.
+import { prisma } from "./db";
+
+export async function overdue(now: Date) {
+  // Unpaid and paid invoices past their due date, one query per bucket so
+  // each call site is its own finding; none of them filters on a tenant key.
+  // expect: prisma-missing-tenant-filter info
+  const r0 = await prisma.invoice.findMany({
+    where: { paid: false, dueAt: { lt: now } },
+    select: { id: true, number: true, total: true, customerId: true },
+    orderBy: { dueAt: "asc" },
+  });
+  // expect: prisma-missing-tenant-filter info
+  const r1 = await prisma.invoice.findMany({
+    where: { paid: true, dueAt: { lt: now } },
+    select: { id: true, number: true, total: true, customerId: true },
+    orderBy: { dueAt: "asc" },
+  });
+  // expect: prisma-missing-tenant-filter info
+  const r2 = await prisma.invoice.findMany({
+    where: { paid: false, dueAt: { lt: now } },
+    select: { id: true, number: true, total: true, customerId: true },
+    orderBy: { dueAt: "asc" },
+  });
+  // expect: prisma-missing-tenant-filter info
+  const r3 = await prisma.invoice.findMany({
+    where: { paid: true, dueAt: { lt: now } },
+    select: { id: true, number: true, total: true, customerId: true },
+    orderBy: { dueAt: "asc" },
+  });
+  // expect: prisma-missing-tenant-filter info
+  const r4 = await prisma.invoice.findMany({
+    where: { paid: false, dueAt: { lt: now } },
+    select: { id: true, number: true, total: true, customerId: true },
+    orderBy: { dueAt: "asc" },
+  });
+  // expect: prisma-missing-tenant-filter info
+  const r5 = await prisma.invoice.findMany({
+    where: { paid: true, dueAt: { lt: now } },
+    select: { id: true, number: true, total: true, customerId: true },
+    orderBy: { dueAt: "asc" },
+  });
+  const r6 = await prisma.invoice.findMany({
+    where: { paid: false, dueAt: { lt: now } },
+    select: { id: true, number: true, total: true, customerId: true },
+    orderBy: { dueAt: "asc" },
+  });
+  return [r0, r1, r2, r3, r4, r5, r6];
+}
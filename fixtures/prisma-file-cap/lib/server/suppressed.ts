@@ -0,0 +1,31 @@
+// Suppressed call sites don't use up FILE_CAP: after eight
+// vibecheck:tenant-ok calls the unsuppressed invoice read is still reported.
+import { prisma } from "./db";
+
+export async function lookups() {
+  // vibecheck:tenant-ok (reference data)
+  const c0 = await prisma.country.findMany({ where: { region: 0 } });
+  // vibecheck:tenant-ok (reference data)
+  const c1 = await prisma.country.findMany({ where: { region: 1 } });
+  // vibecheck:tenant-ok (reference data)
+  const c2 = await prisma.country.findMany({ where: { region: 2 } });
+  // vibecheck:tenant-ok (reference data)
+  const c3 = await prisma.country.findMany({ where: { region: 3 } });
+  // vibecheck:tenant-ok (reference data)
+  const c4 = await prisma.country.findMany({ where: { region: 4 } });
+  // vibecheck:tenant-ok (reference data)
+  const c5 = await prisma.country.findMany({ where: { region: 5 } });
+  // vibecheck:tenant-ok (reference data)
+  const c6 = await prisma.country.findMany({ where: { region: 6 } });
+  // vibecheck:tenant-ok (reference data)
+  const c7 = await prisma.country.findMany({ where: { region: 7 } });
+
+  // Countries are shared reference data, so the reads above carry the
+  // marker. Invoices belong to a tenant, and this read is far enough from
+  // the last marker that the ~300 chars it covers end before it: the read
+  // is reported even though the eight suppressed call sites above would
+  // have filled the per-file cap if suppressed findings counted toward it.
+  // expect: prisma-missing-tenant-filter info
+  const invoices = await prisma.invoice.findMany({ where: { paid: false } });
+  return { countries: [c0, c1, c2, c3, c4, c5, c6, c7], invoices };
+}
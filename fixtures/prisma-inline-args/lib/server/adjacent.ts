@@ -0,0 +1,19 @@
+// Each call is parsed from its own "(": a call right after a function
+// signature or another call isn't read with the earlier arguments.
+import { prisma } from "./db";
+
+export async function GET(req: Request) {
+  // expect: prisma-missing-tenant-filter info
+  const open = await prisma.ticket.findMany({ where: { closed: false } });
+  const mine = await prisma.ticket.findMany({ where: { orgId: req.url } });
+  // expect: prisma-missing-tenant-filter info
+  const stale = await prisma.ticket.findFirst({ where: { stale: true } });
+  return Response.json({ open, mine, stale });
+}
+
+export async function DELETE(filter: any) {
+  // expect: prisma-write-tenant-boundary info
+  await prisma.ticket.deleteMany({ where: { closed: true } });
+  await prisma.ticket.deleteMany({ where: { closed: true, orgId: "o1" } });
+  await prisma.ticket.updateMany(filter);
+}
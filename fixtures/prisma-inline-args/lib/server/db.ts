@@ -0,0 +1 @@
+export const prisma: any = {};
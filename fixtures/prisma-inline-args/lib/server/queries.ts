@@ -0,0 +1,68 @@
+// The tenant heuristics only parse an inline object literal as the first
+// argument, and only in server paths (lib/server/ here).
+import { prisma } from "./db";
+
+export async function reads(args: any, orgId: string) {
+  // not an inline object: skipped, even though the caller may pass a where
+  // without a tenant key; the heuristic can't see through variables
+  const a = await prisma.project.findMany(args);
+
+  // archived projects across every organization: no tenant key in where,
+  // so the read is reported as a possible cross-tenant leak
+  // expect: prisma-missing-tenant-filter info
+  const b = await prisma.project.findMany({
+    where: { archived: false },
+    select: { id: true, name: true, archived: true, createdAt: true },
+  });
+
+  // comments between the paren and the object are skipped before the
+  // object literal is parsed, both line comments and block comments
+  // expect: prisma-missing-tenant-filter info
+  const c = await prisma.project.findFirst(/* newest */ {
+    where: { archived: false },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, name: true, archived: true, createdAt: true },
+  });
+
+  // a tenant key in where passes: orgId is one of the default tenantKeys
+  // and is matched as a key of the where object
+  const d = await prisma.project.findMany({
+    where: { orgId: orgId, archived: false },
+    select: { id: true, name: true, archived: true, createdAt: true },
+  });
+
+  // no where at all: nothing to check, the heuristic only looks inside an
+  // inline where object
+  const e = await prisma.project.findMany({
+    take: 10,
+    select: { id: true, name: true, archived: true, createdAt: true },
+  });
+
+  // findUnique isn't in the default tenantReadCalls, so it is never
+  // checked, whatever its where looks like
+  const f = await prisma.project.findUnique({ where: { id: 1 } });
+  return { a, b, c, d, e, f };
+}
+
+export async function writes(filter: any) {
+  // Expired invites are removed for every workspace at once: a bulk write
+  // whose where has no tenant key is reported by the boundary rule, which
+  // looks at updateMany and deleteMany calls with an inline first argument.
+  // expect: prisma-write-tenant-boundary info
+  await prisma.invite.deleteMany({
+    where: { expired: true, notified: true, createdAt: { lt: new Date() } },
+  });
+
+  // The same kind of bulk write scoped to one workspace passes: the where
+  // object mentions workspaceId, which is one of the default tenantKeys and
+  // keeps the write inside a single tenant's rows.
+  await prisma.invite.updateMany({
+    where: { expired: true, workspaceId: "w1" },
+    data: { notified: true },
+  });
+
+  // A filter passed in from the caller can't be checked: the first
+  // argument isn't an inline object literal, so the write is skipped even
+  // though the filter may have no tenant key in it at all, like the reads.
+  await prisma.invite.deleteMany(filter);
+}
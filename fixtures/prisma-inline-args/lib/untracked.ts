@@ -0,0 +1,8 @@
+// Outside the server paths (tenantReadOnlyPaths / tenantBoundaryOnly):
+// no tenant heuristics.
+import { prisma } from "./server/db";
+
+export async function untracked() {
+  await prisma.invite.deleteMany({ where: { expired: true } });
+  return prisma.project.findMany({ where: { archived: false } });
+}
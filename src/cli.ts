@@ -1,31 +1,86 @@
 #!/usr/bin/env node
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import path from "node:path";
-import { writeFile } from "node:fs/promises";
+import { watch } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { createInterface } from "node:readline/promises";
 
-import type { CheckerConfig, OutputFormat, StackName } from "./engine/types.js";
-import { discoverFiles } from "./scanner/discoverFiles.js";
+import type {
+  CheckerConfig,
+  Finding,
+  OutputFormat,
+  RuleOverride,
+  StackName,
+} from "./engine/types.js";
+import { scan, type ScanResult } from "./scan.js";
+import { formatReport } from "./formatReport.js";
+import { createFileMatcher, discoverFiles } from "./scanner/discoverFiles.js";
 import { detectRepo } from "./scanner/repoDetect.js";
-import { getChangedFiles } from "./scanner/changedFiles.js";
-import { readText } from "./utils/readText.js";
-import { loadConfig } from "./engine/configLoader.js";
-import { runRules } from "./engine/runRules.js";
-import { printConsole, summarize, exitCode } from "./engine/report.js";
+import {
+  formatCapabilities,
+  resolveCapabilities,
+  stackFromCapabilities,
+} from "./scanner/capabilities.js";
+import { configuredWorkspaces, splitScanUnits } from "./scanner/workspaces.js";
+import {
+  CHANGE_KINDS,
+  ChangeSetError,
+  type ChangeKind,
+} from "./scanner/changedFiles.js";
+import {
+  ConfigError,
+  loadConfigWithSources,
+  type LoadedConfig,
+} from "./engine/configLoader.js";
+import { formatIssue } from "./engine/configSchema.js";
+import { runScanUnits } from "./engine/workspaces.js";
+import { createSourceCache } from "./engine/sourceCache.js";
+import { defaultJobs } from "./engine/parallel.js";
+import { formatProfile } from "./engine/profile.js";
+import { createWatchSession } from "./engine/watch.js";
+import { planFixes, writeFixPlan } from "./engine/fixes.js";
+import { runRuleTests, type FixtureResult } from "./testRules.js";
+import { VERSION } from "./version.js";
+import {
+  printConsole,
+  printConsoleByPackage,
+  printSuppressed,
+  printFindingDiff,
+  printUnifiedDiff,
+  printRuleTests,
+  summarize,
+  exitCode,
+} from "./engine/report.js";
 import {
   loadBaseline,
+  saveBaseline,
   writeBaseline,
-  applyBaseline,
+  diffBaseline,
+  migrateBaseline,
+  updateBaseline,
+  pruneBaseline,
+  type Baseline,
+  type BaselineV2,
 } from "./engine/baseline.js";
-import { toSarif } from "./engine/sarif.js";
-import { rulesForStack } from "./rules/index.js";
+import { DEFAULT_MARKDOWN_MAX_BYTES } from "./engine/markdown.js";
+import { parseRuleFlag } from "./engine/overrides.js";
+import { parseSeverity } from "./engine/severity.js";
+import { ALL_RULES } from "./rules/index.js";
+import {
+  formatRuleDoc,
+  formatRuleList,
+  ruleStatus,
+} from "./engine/ruleDocs.js";
 import { startStatusLine } from "./utils/status.js";
+import { toPosix } from "./utils/path.js";
+import { unifiedDiff } from "./utils/diff.js";
 
 const program = new Command();
 
 program
   .name("vibecheck")
   .description("Codebase checker CLI for Next.js / Vite / NestJS + Prisma")
-  .version("0.3.0");
+  .version(VERSION);
 
 function parseStack(v: string) {
   const s = v.toLowerCase();
@@ -36,172 +91,931 @@ function parseStack(v: string) {
   return "auto";
 }
 
+// repeatable: --rule next-api-auth-guard=off --rule next-async-waterfall=info
+function collectRule(
+  v: string,
+  prev: Record<string, RuleOverride>,
+): Record<string, RuleOverride> {
+  try {
+    const [id, o] = parseRuleFlag(v);
+    return { ...prev, [id]: { ...prev[id], ...o } };
+  } catch (e: any) {
+    throw new InvalidArgumentError(String(e?.message ?? e));
+  }
+}
+
+function parseChangeKinds(v: string): ChangeKind[] {
+  const kinds = v.split(",").map((k) => k.trim().toLowerCase());
+  const bad = kinds.filter((k) => !CHANGE_KINDS.includes(k as ChangeKind));
+  if (bad.length || !kinds.length)
+    throw new InvalidArgumentError(
+      `expected ${CHANGE_KINDS.join("|")}, comma-separated`,
+    );
+  return kinds as ChangeKind[];
+}
+
+function parseMaxBytes(v: string) {
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 1000)
+    throw new InvalidArgumentError("expected an integer >= 1000");
+  return n;
+}
+
+function parseJobs(v: string) {
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 1)
+    throw new InvalidArgumentError("expected a positive integer");
+  return n;
+}
+
+function parseMinSeverity(v: string) {
+  const sev = parseSeverity(v);
+  if (!sev)
+    throw new InvalidArgumentError("expected blocker|high|med|low|info");
+  return sev;
+}
+
+// Only flags the user actually passed override the config file (defaults don't).
+function cliOverrideFrom(opts: any, cmd: Command): Partial<CheckerConfig> {
+  const fromCli = (k: string) => cmd.getOptionValueSource(k) === "cli";
+  return {
+    ...(fromCli("stack") ? { stack: parseStack(opts.stack) as StackName } : {}),
+    ...(fromCli("auth") ? { auth: opts.auth } : {}),
+    ruleOverrides: opts.rule ?? {},
+    output: opts.minSeverity ? { minSeverity: opts.minSeverity } : {},
+  };
+}
+
+// Prints schema warnings; on ConfigError prints the issues and returns null (exit 2).
+async function loadConfigOrExit(
+  rootDir: string,
+  override: Partial<CheckerConfig>,
+  deps: Record<string, string>,
+): Promise<LoadedConfig | null> {
+  try {
+    const loaded = await loadConfigWithSources(rootDir, override, deps);
+    for (const w of loaded.warnings) console.error(formatIssue(w));
+    return loaded;
+  } catch (e) {
+    if (!(e instanceof ConfigError)) throw e;
+    for (const i of e.issues) console.error(formatIssue(i));
+    process.exitCode = 2;
+    return null;
+  }
+}
+
+// Bad config or a changed-files question git can't answer: exit 2, no fallback.
+function exitOnScanError(e: unknown): void {
+  if (e instanceof ConfigError) {
+    for (const i of e.issues) console.error(formatIssue(i));
+  } else if (e instanceof ChangeSetError) {
+    console.error(e.message);
+  } else throw e;
+  process.exitCode = 2;
+}
+
+// `scan` and `ci` share this; ci passes its own defaults (strict, baseline, json).
+async function scanAction(dir: string, opts: any, cmd: Command) {
+  const format = (opts.format ?? "console") as OutputFormat;
+  const status = startStatusLine({
+    words: ["Running", "Scanning", "Vibing"],
+    prefix: "",
+  });
+
+  let result: ScanResult;
+  try {
+    result = await scan({
+      rootDir: path.resolve(process.cwd(), dir),
+      config: cliOverrideFrom(opts, cmd),
+      changed: opts.changed,
+      since: opts.since ?? opts.base,
+      mergeBase: Boolean(opts.base),
+      diffLines: opts.diffLines,
+      baseline: opts.baseline || undefined,
+      jobs: opts.jobs,
+      cache: opts.cache,
+    });
+  } catch (e: any) {
+    status.stop();
+    exitOnScanError(e);
+    return;
+  }
+
+  const { findings, summary, report, baseline } = result;
+  for (const w of result.warnings) console.error(formatIssue(w));
+  if (result.changedOnly && !result.files.length)
+    console.error("No changed files to scan.");
+  if (baseline && !baseline.found)
+    console.error(`No baseline at ${baseline.path}; reporting all findings.`);
+
+  status.stop("✅ Scan complete.");
+
+  if (opts.profile) {
+    for (const line of formatProfile(result.profile, result.durationMs))
+      console.error(line);
+  }
+
+  if (format !== "console") {
+    const out = await formatReport(result, format, {
+      linkBase: opts.linkBase,
+      maxBytes: opts.maxBytes,
+      commandLine: ["vibecheck", ...process.argv.slice(2)].join(" "),
+    });
+    if (opts.out)
+      await writeFile(path.resolve(process.cwd(), opts.out), out, "utf8");
+    else process.stdout.write(out.endsWith("\n") ? out : `${out}\n`);
+  } else {
+    console.log(`Capabilities: ${formatCapabilities(result.capabilities)}`);
+    for (const p of result.packages.filter((p) => p.path !== "."))
+      console.log(`  ${p.path}: ${p.capabilities.join(", ") || "none"}`);
+    console.log();
+    if (result.packages.length)
+      printConsoleByPackage(findings, result.packages);
+    else printConsole(findings);
+    printSuppressed(report);
+    if (baseline?.fixed)
+      console.log(
+        `${baseline.fixed} baselined finding(s) were fixed — run \`vibecheck baseline prune\` to shrink the baseline.`,
+      );
+    console.log(
+      `Summary: blocker=${summary.blocker} high=${summary.high} med=${summary.med} low=${summary.low} info=${summary.info}`,
+    );
+  }
+
+  // Output filtering only hides findings; --strict still gates on all of them
+  process.exitCode = exitCode(result.unfiltered, Boolean(opts.strict));
+}
+
 program
   .command("scan")
   .argument("[dir]", "repo root directory", ".")
   .option("--stack <stack>", "auto|nextjs|vite|nestjs", "auto")
   .option("--auth <auth>", "auto|nextauth|clerk|betterauth|custom|none", "auto")
+  .option(
+    "--rule <id=severity>",
+    "override a rule's severity (or off); repeatable",
+    collectRule,
+    {},
+  )
   .option("--strict", "exit non-zero if blocker/high found", false)
-  .option("--changed", "only scan files changed vs HEAD (best effort)", false)
+  .option(
+    "--changed [kinds]",
+    "only scan changed files: staged,unstaged,untracked (default: all three)",
+    parseChangeKinds,
+  )
+  .option(
+    "--since <ref>",
+    "only scan files changed since <ref> (committed, uncommitted and untracked)",
+  )
+  .option(
+    "--diff-lines",
+    "only report findings on added/modified lines (implies --changed)",
+    false,
+  )
   .option("--baseline <file>", "baseline file path", "")
-  .option("--format <format>", "console|json|sarif", "console")
-  .option("--out <file>", "write report to file (json/sarif)", "")
-  .action(async (dir: string, opts: any) => {
-    const rootDir = path.resolve(process.cwd(), dir);
+  .option(
+    "--min-severity <severity>",
+    "hide findings below this severity (overrides output.minSeverity)",
+    parseMinSeverity,
+  )
+  .option(
+    "--format <format>",
+    "console|json|sarif|html|markdown|junit|gitlab",
+    "console",
+  )
+  .option("--out <file>", "write report to file (any format but console)", "")
+  .option(
+    "--max-bytes <n>",
+    `markdown: size limit, truncating with counts (default: ${DEFAULT_MARKDOWN_MAX_BYTES})`,
+    parseMaxBytes,
+  )
+  .option(
+    "--link-base <url>",
+    "markdown: prefix for file links (default: repo-relative links)",
+  )
+  .option(
+    "--jobs <n>",
+    "worker threads for file-sharded rules (1 = in-process only)",
+    parseJobs,
+  )
+  .option("--profile", "print per-rule timings to stderr", false)
+  .option("--no-cache", "ignore and don't write .vibecheck/cache.json")
+  .action(scanAction);
 
-    const status = startStatusLine({
-      words: ["Running", "Scanning", "Vibing"],
-      prefix: "",
-    });
+const baselineCmd = program
+  .command("baseline")
+  .description("Baseline management");
 
-    const { repo, deps } = await detectRepo(rootDir);
+// Full scan for the baseline commands (no cache, no output filtering).
+async function scanForBaseline(dir: string, opts: any, cmd: Command) {
+  const rootDir = path.resolve(process.cwd(), dir);
+  const { repo, deps } = await detectRepo(rootDir);
+
+  const loaded = await loadConfigOrExit(
+    rootDir,
+    cliOverrideFrom(opts, cmd),
+    deps,
+  );
+  if (!loaded) return null;
+  const { config } = loaded;
+  const allFiles = await discoverFiles(rootDir, config);
+  const units = splitScanUnits(
+    repo,
+    allFiles,
+    await configuredWorkspaces(rootDir, config),
+    config,
+  );
+  const sources = createSourceCache(config.maxFileBytes);
+  const runs = await runScanUnits(units, {
+    repoRoot: rootDir,
+    config,
+    extraRules: loaded.rules,
+    sources,
+    jobs: opts.jobs ?? defaultJobs(),
+  });
+  const findings = runs.flatMap((r) => r.findings);
+  return { rootDir, getSource: sources.getSource, findings };
+}
+
+// v1 files are migrated in memory first; update/prune always write v2.
+async function loadBaselineV2(
+  p: string,
+  rootDir: string,
+  getSource: (abs: string) => Promise<string>,
+): Promise<BaselineV2> {
+  const baseline: Baseline = await loadBaseline(p);
+  if (baseline.version === 2) return baseline;
+  return (await migrateBaseline(baseline, rootDir, getSource)).baseline;
+}
 
-    const cliOverride: Partial<CheckerConfig> = {
-      stack: parseStack(opts.stack) as any,
-      auth: opts.auth ?? "auto",
-    } as any;
+function baselineScanCommand(name: string, description: string) {
+  return baselineCmd
+    .command(name)
+    .description(description)
+    .argument("[dir]", "repo root directory", ".")
+    .option("--stack <stack>", "auto|nextjs|vite|nestjs", "auto")
+    .option(
+      "--auth <auth>",
+      "auto|nextauth|clerk|betterauth|custom|none",
+      "auto",
+    )
+    .option(
+      "--rule <id=severity>",
+      "override a rule's severity (or off); repeatable",
+      collectRule,
+      {},
+    )
+    .option(
+      "--jobs <n>",
+      "worker threads for file-sharded rules (1 = in-process only)",
+      parseJobs,
+    );
+}
 
-    const config = await loadConfig(rootDir, cliOverride, deps);
+baselineScanCommand("init", "Create a baseline file of current findings")
+  .option("--out <file>", "baseline output file", ".vibecheck-baseline.json")
+  .action(async (dir: string, opts: any, cmd: Command) => {
+    const scan = await scanForBaseline(dir, opts, cmd);
+    if (!scan) return;
+    const { rootDir, getSource, findings } = scan;
 
-    const allFiles = await discoverFiles(rootDir, config);
-    let files = allFiles;
+    const outPath = path.resolve(process.cwd(), opts.out);
+    await writeBaseline(outPath, findings, rootDir, getSource);
+    console.log(
+      `Baseline written to ${outPath} (${findings.length} findings recorded).`,
+    );
+  });
 
-    if (opts.changed) {
-      const changed = await getChangedFiles(rootDir);
-      if (changed && changed.length > 0) {
-        const set = new Set(
-          changed.map((p: string) => path.resolve(rootDir, p)),
-        );
-        files = allFiles.filter((f: string) => set.has(path.resolve(f)));
-        if (files.length === 0) files = allFiles;
-      }
-    }
+baselineScanCommand(
+  "update",
+  "Add new findings to the baseline, keeping existing entries",
+)
+  .option("--baseline <file>", "baseline file", ".vibecheck-baseline.json")
+  .action(async (dir: string, opts: any, cmd: Command) => {
+    const scan = await scanForBaseline(dir, opts, cmd);
+    if (!scan) return;
+    const { rootDir, getSource, findings } = scan;
 
-    const relPaths = files.map((f: string) =>
-      f.startsWith(rootDir) ? f.slice(rootDir.length + 1) : f,
+    const p = path.resolve(process.cwd(), opts.baseline);
+    const baseline = await loadBaselineV2(p, rootDir, getSource);
+    const diff = await diffBaseline(findings, baseline, rootDir, getSource);
+    await saveBaseline(
+      p,
+      await updateBaseline(baseline, diff.introduced, rootDir, getSource),
     );
+    console.log(
+      `Baseline updated: ${p} (${diff.introduced.length} new finding(s) added).`,
+    );
+  });
 
-    const stack: StackName =
-      config.stack !== "auto" ? config.stack : (repo.stack as any);
-    const rules = rulesForStack(stack);
+baselineScanCommand(
+  "prune",
+  "Remove baseline entries that no longer match any finding",
+)
+  .option("--baseline <file>", "baseline file", ".vibecheck-baseline.json")
+  .action(async (dir: string, opts: any, cmd: Command) => {
+    const scan = await scanForBaseline(dir, opts, cmd);
+    if (!scan) return;
+    const { rootDir, getSource, findings } = scan;
 
-    const ctx = {
-      rootDir,
-      files,
-      relPaths,
-      readFile: (p: string) => readText(p, config.maxFileBytes),
-      config,
-      repo: { ...repo, stack },
-    };
+    const p = path.resolve(process.cwd(), opts.baseline);
+    const baseline = await loadBaselineV2(p, rootDir, getSource);
+    const diff = await diffBaseline(findings, baseline, rootDir, getSource);
+    await saveBaseline(p, pruneBaseline(baseline, diff.fixed));
+    const removed = diff.fixed.reduce((n, e) => n + e.count, 0);
+    console.log(`Baseline pruned: ${p} (${removed} fixed finding(s) removed).`);
+  });
+
+baselineScanCommand(
+  "status",
+  "Per rule: baselined, newly introduced and fixed findings",
+)
+  .option("--baseline <file>", "baseline file", ".vibecheck-baseline.json")
+  .option("--json", "print as JSON", false)
+  .action(async (dir: string, opts: any, cmd: Command) => {
+    const scan = await scanForBaseline(dir, opts, cmd);
+    if (!scan) return;
+    const { rootDir, getSource, findings } = scan;
 
-    let findings = await runRules(ctx, rules);
+    const p = path.resolve(process.cwd(), opts.baseline);
+    const baseline = await loadBaseline(p);
+    const diff = await diffBaseline(findings, baseline, rootDir, getSource);
 
-    if (opts.baseline) {
-      const baselinePath = path.resolve(process.cwd(), opts.baseline);
-      const baseline = await loadBaseline(baselinePath);
-      findings = applyBaseline(findings, baseline);
+    const rows = new Map<
+      string,
+      { baselined: number; introduced: number; fixed: number }
+    >();
+    const row = (id: string) => {
+      let r = rows.get(id);
+      if (!r) rows.set(id, (r = { baselined: 0, introduced: 0, fixed: 0 }));
+      return r;
+    };
+    for (const f of diff.baselined) row(f.ruleId).baselined++;
+    for (const f of diff.introduced) row(f.ruleId).introduced++;
+    for (const e of diff.fixed) row(e.ruleId).fixed += e.count;
+    const sorted = [...rows.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+    if (opts.json) {
+      console.log(
+        JSON.stringify(
+          {
+            baseline: p,
+            version: baseline.version,
+            rules: Object.fromEntries(sorted),
+          },
+          null,
+          2,
+        ),
+      );
+      return;
     }
 
-    const format = (opts.format ?? "console") as OutputFormat;
-    const summary = summarize(findings);
+    const w = Math.max(4, ...sorted.map(([id]) => id.length));
+    console.log(
+      `${"rule".padEnd(w)}  ${"baselined".padStart(9)}  ${"new".padStart(5)}  ${"fixed".padStart(5)}`,
+    );
+    for (const [id, r] of sorted) {
+      console.log(
+        `${id.padEnd(w)}  ${String(r.baselined).padStart(9)}  ${String(r.introduced).padStart(5)}  ${String(r.fixed).padStart(5)}`,
+      );
+    }
+    const total = (k: "baselined" | "introduced" | "fixed") =>
+      sorted.reduce((n, [, r]) => n + r[k], 0);
+    console.log(
+      `Total: baselined=${total("baselined")} new=${total("introduced")} fixed=${total("fixed")}`,
+    );
+    if (total("fixed"))
+      console.log("Run `vibecheck baseline prune` to drop fixed entries.");
+  });
 
-    status.stop("✅ Scan complete.");
+baselineCmd
+  .command("migrate")
+  .description("Convert a v1 baseline (absolute paths, line-based) to v2")
+  .argument("[file]", "baseline file", ".vibecheck-baseline.json")
+  .option(
+    "--root <dir>",
+    "repo root the v1 paths were recorded under (default: the baseline's directory)",
+  )
+  .option("--out <file>", "output file (default: overwrite the input)")
+  .action(async (file: string, opts: any) => {
+    const inPath = path.resolve(process.cwd(), file);
+    const rootDir = opts.root
+      ? path.resolve(process.cwd(), opts.root)
+      : path.dirname(inPath);
+    const outPath = opts.out ? path.resolve(process.cwd(), opts.out) : inPath;
 
-    if (format === "json") {
-      const payload = { rootDir, repo: ctx.repo, config, summary, findings };
-      const out = JSON.stringify(payload, null, 2);
-      if (opts.out)
-        await writeFile(path.resolve(process.cwd(), opts.out), out, "utf8");
-      else console.log(out);
-    } else if (format === "sarif") {
-      const sarif = toSarif(findings, rootDir);
-      const out = JSON.stringify(sarif, null, 2);
-      if (opts.out)
-        await writeFile(path.resolve(process.cwd(), opts.out), out, "utf8");
-      else console.log(out);
-    } else {
-      printConsole(findings);
+    let v1: any;
+    try {
+      v1 = JSON.parse(await readFile(inPath, "utf8"));
+    } catch (e: any) {
+      console.error(
+        `Cannot read baseline ${inPath}: ${String(e?.message ?? e)}`,
+      );
+      process.exitCode = 2;
+      return;
+    }
+    if (v1?.version !== 1) {
       console.log(
-        `Summary: blocker=${summary.blocker} high=${summary.high} med=${summary.med} low=${summary.low} info=${summary.info}`,
+        `${inPath} is already version ${v1?.version}; nothing to do.`,
       );
+      return;
     }
 
-    process.exitCode = exitCode(findings, Boolean(opts.strict));
+    const { baseline, skipped } = await migrateBaseline(v1, rootDir, (abs) =>
+      readFile(abs, "utf8").catch(() => ""),
+    );
+    await saveBaseline(outPath, baseline);
+    const total = baseline.items.reduce((n, i) => n + i.count, 0);
+    console.log(
+      `Baseline migrated to v2: ${outPath} (${total} findings recorded).`,
+    );
+    if (skipped)
+      console.error(
+        `${skipped} finding(s) were recorded outside ${rootDir} and were dropped; pass --root <dir>.`,
+      );
   });
 
 program
-  .command("baseline")
-  .description("Baseline management")
-  .command("init")
+  .command("ci")
+  .description(
+    "CI scan: strict exit codes, baseline, machine-readable output (optionally only files changed since --base)",
+  )
   .argument("[dir]", "repo root directory", ".")
   .option("--stack <stack>", "auto|nextjs|vite|nestjs", "auto")
   .option("--auth <auth>", "auto|nextauth|clerk|betterauth|custom|none", "auto")
-  .option("--out <file>", "baseline output file", ".vibecheck-baseline.json")
-  .action(async (dir: string, opts: any) => {
+  .option(
+    "--rule <id=severity>",
+    "override a rule's severity (or off); repeatable",
+    collectRule,
+    {},
+  )
+  .option(
+    "--base <ref>",
+    "only scan files changed since the merge-base with this ref (e.g. origin/main)",
+  )
+  .option(
+    "--diff-lines",
+    "only report findings on added/modified lines (with --base: since the merge-base)",
+    false,
+  )
+  .option("--baseline <file>", "baseline file path", ".vibecheck-baseline.json")
+  .option(
+    "--min-severity <severity>",
+    "hide findings below this severity (overrides output.minSeverity)",
+    parseMinSeverity,
+  )
+  .option(
+    "--format <format>",
+    "console|json|sarif|html|markdown|junit|gitlab",
+    "json",
+  )
+  .option("--out <file>", "write report to file (any format but console)", "")
+  .option(
+    "--max-bytes <n>",
+    `markdown: size limit, truncating with counts (default: ${DEFAULT_MARKDOWN_MAX_BYTES})`,
+    parseMaxBytes,
+  )
+  .option(
+    "--link-base <url>",
+    "markdown: prefix for file links (default: repo-relative links)",
+  )
+  .option(
+    "--jobs <n>",
+    "worker threads for file-sharded rules (1 = in-process only)",
+    parseJobs,
+  )
+  .action((dir: string, opts: any, cmd: Command) =>
+    // CI runners start clean, so the scan cache would only cost a write.
+    scanAction(dir, { ...opts, strict: true, cache: false }, cmd),
+  );
+
+program
+  .command("watch")
+  .description(
+    "Re-scan changed files as you edit and print new and resolved findings",
+  )
+  .argument("[dir]", "repo root directory", ".")
+  .option("--stack <stack>", "auto|nextjs|vite|nestjs", "auto")
+  .option("--auth <auth>", "auto|nextauth|clerk|betterauth|custom|none", "auto")
+  .option(
+    "--rule <id=severity>",
+    "override a rule's severity (or off); repeatable",
+    collectRule,
+    {},
+  )
+  .option(
+    "--min-severity <severity>",
+    "hide findings below this severity (overrides output.minSeverity)",
+    parseMinSeverity,
+  )
+  .option(
+    "--jobs <n>",
+    "worker threads for file-sharded rules (1 = in-process only)",
+    parseJobs,
+  )
+  .action(async (dir: string, opts: any, cmd: Command) => {
     const rootDir = path.resolve(process.cwd(), dir);
     const { repo, deps } = await detectRepo(rootDir);
+    const loaded = await loadConfigOrExit(
+      rootDir,
+      cliOverrideFrom(opts, cmd),
+      deps,
+    );
+    if (!loaded) return;
+    const { config } = loaded;
+
+    const session = createWatchSession({
+      config,
+      repo,
+      packages: await configuredWorkspaces(rootDir, config),
+      rules: loaded.rules,
+      jobs: opts.jobs ?? defaultJobs(),
+    });
+    const summaryLine = (findings: Finding[]) => {
+      const s = summarize(findings);
+      return `blocker=${s.blocker} high=${s.high} med=${s.med} low=${s.low} info=${s.info}`;
+    };
 
-    const cliOverride: Partial<CheckerConfig> = {
-      stack: parseStack(opts.stack) as any,
-      auth: opts.auth ?? "auto",
-    } as any;
+    const first = await session.scan();
+    printConsole(first.findings);
+    console.log(`Summary: ${summaryLine(first.findings)}`);
 
-    const config = await loadConfig(rootDir, cliOverride, deps);
-    const allFiles = await discoverFiles(rootDir, config);
-    const stack: StackName =
-      config.stack !== "auto" ? config.stack : (repo.stack as any);
+    // Batch editor saves; one scan at a time, changes during a scan queue up.
+    const matches = createFileMatcher(config);
+    const pending = new Set<string>();
+    let timer: NodeJS.Timeout | undefined;
+    let running = false;
 
-    const ctx = {
-      rootDir,
-      files: allFiles,
-      relPaths: allFiles.map((f: string) =>
-        f.startsWith(rootDir) ? f.slice(rootDir.length + 1) : f,
-      ),
-      readFile: (p: string) => readText(p, config.maxFileBytes),
-      config,
-      repo: { ...repo, stack },
+    const rescan = async () => {
+      if (running || !pending.size) return;
+      running = true;
+      const changed = [...pending];
+      pending.clear();
+      try {
+        const t0 = performance.now();
+        const res = await session.scan(changed);
+        const ms = Math.round(performance.now() - t0);
+        console.log(
+          `\n[${new Date().toLocaleTimeString()}] ${changed.length} file(s) changed, ${res.added.length} new, ${res.resolved.length} resolved (${ms}ms${res.rediscovered ? ", auth discovery re-run" : ""})`,
+        );
+        printFindingDiff(res.added, res.resolved);
+        console.log(`Summary: ${summaryLine(res.findings)}`);
+      } catch (e: any) {
+        console.error(`Scan failed: ${String(e?.message ?? e)}`);
+      } finally {
+        running = false;
+        if (pending.size) void rescan();
+      }
     };
 
-    const rules = rulesForStack(stack);
-    const findings = await runRules(ctx, rules);
+    try {
+      watch(rootDir, { recursive: true }, (_event, name) => {
+        if (!name) return;
+        const rel = toPosix(String(name));
+        // Extension-less paths may be directories (renames, deletes): keep
+        // them if they could hold scanned files; the re-glob does the rest.
+        const relevant =
+          matches(rel) || (!path.extname(rel) && matches(`${rel}/x.ts`));
+        if (!relevant) return;
+        pending.add(path.join(rootDir, rel));
+        clearTimeout(timer);
+        timer = setTimeout(() => void rescan(), 200);
+      });
+    } catch (e: any) {
+      console.error(
+        `Can't watch ${rootDir}: ${String(e?.message ?? e)} (recursive watching needs Node 20+ on Linux)`,
+      );
+      process.exitCode = 2;
+      return;
+    }
+    console.error(`Watching ${rootDir} for changes (Ctrl+C to stop)…`);
+  });
 
-    const outPath = path.resolve(process.cwd(), opts.out);
-    await writeBaseline(outPath, findings);
+// fix --rule takes plain rule ids (unlike scan's id=severity)
+function collectId(v: string, prev: string[]): string[] {
+  return [...prev, v];
+}
+
+program
+  .command("fix")
+  .description("Apply the machine-applicable fixes attached to findings")
+  .argument("[dir]", "repo root directory", ".")
+  .option(
+    "--rule <id>",
+    "only fix findings of this rule; repeatable",
+    collectId,
+    [],
+  )
+  .option("--dry-run", "print the diff without writing files", false)
+  .option(
+    "--yes",
+    "apply fixes that change behaviour without asking (e.g. Promise.all rewrites)",
+    false,
+  )
+  .option("--stack <stack>", "auto|nextjs|vite|nestjs", "auto")
+  .option("--auth <auth>", "auto|nextauth|clerk|betterauth|custom|none", "auto")
+  .option(
+    "--jobs <n>",
+    "worker threads for file-sharded rules (1 = in-process only)",
+    parseJobs,
+  )
+  .action(async (dir: string, opts: any, cmd: Command) => {
+    const fromCli = (k: string) => cmd.getOptionValueSource(k) === "cli";
+    let result: ScanResult;
+    try {
+      result = await scan({
+        rootDir: path.resolve(process.cwd(), dir),
+        config: {
+          ...(fromCli("stack")
+            ? { stack: parseStack(opts.stack) as StackName }
+            : {}),
+          ...(fromCli("auth") ? { auth: opts.auth } : {}),
+        },
+        jobs: opts.jobs,
+      });
+    } catch (e) {
+      exitOnScanError(e);
+      return;
+    }
+    for (const w of result.warnings) console.error(formatIssue(w));
+
+    const ids: string[] = opts.rule;
+    const ran = new Set(result.rules.map((r) => r.id));
+    const unknown = ids.filter((id) => !ran.has(id));
+    if (unknown.length) {
+      console.error(
+        `Rule(s) not run for this repo: ${unknown.join(", ")}. Run \`vibecheck rules\` to list rules.`,
+      );
+      process.exitCode = 2;
+      return;
+    }
+
+    const relOf = (abs: string) => toPosix(path.relative(result.rootDir, abs));
+    // output.minSeverity / maxFindingsPerRule hide findings, not their fixes
+    const fixable = result.unfiltered.filter(
+      (f) => f.fix && (!ids.length || ids.includes(f.ruleId)),
+    );
+
+    // Fixes marked `confirm` need a yes: --yes, a prompt, or (dry run) a preview.
+    const interactive = Boolean(process.stdin.isTTY && process.stdout.isTTY);
+    let rl: ReturnType<typeof createInterface> | undefined;
+    const selected: Finding[] = [];
+    let unconfirmed = 0;
+    for (const f of fixable) {
+      if (!f.fix!.confirm || opts.yes || opts.dryRun) {
+        selected.push(f);
+        continue;
+      }
+      if (!interactive) {
+        unconfirmed++;
+        continue;
+      }
+      const [preview] = await planFixes([f], result.getSource);
+      const loc = `${relOf(f.file)}${f.line != null ? `:${f.line}` : ""}`;
+      console.log(`\n${loc} [${f.ruleId}] ${f.message}`);
+      printUnifiedDiff(
+        unifiedDiff(
+          preview.before,
+          preview.after,
+          `a/${relOf(f.file)}`,
+          `b/${relOf(f.file)}`,
+        ),
+      );
+      rl ??= createInterface({ input: process.stdin, output: process.stdout });
+      // Ctrl+D / Ctrl+C at the prompt counts as "no"
+      const answer = await rl
+        .question(`${f.fix!.description}? [y/N] `)
+        .catch(() => "");
+      if (/^y(es)?$/i.test(answer.trim())) selected.push(f);
+    }
+    rl?.close();
+
+    const plans = await planFixes(selected, result.getSource);
+    let applied = 0;
+    let files = 0;
+    for (const plan of plans) {
+      const rel = relOf(plan.file);
+      for (const s of plan.skipped) {
+        const loc = `${rel}${s.finding.line != null ? `:${s.finding.line}` : ""}`;
+        console.error(
+          `${loc}: skipped "${s.fix.description}" (${s.finding.ruleId}): ${s.reason}`,
+        );
+      }
+      if (!plan.applied.length) continue;
+
+      if (opts.dryRun) {
+        printUnifiedDiff(
+          unifiedDiff(plan.before, plan.after, `a/${rel}`, `b/${rel}`),
+        );
+        for (const p of plan.applied.filter((p) => p.fix.confirm))
+          console.log(`  (needs confirmation: ${p.fix.description})`);
+      } else if (!(await writeFixPlan(plan))) {
+        console.error(`${rel}: changed on disk during the scan; not fixed`);
+        continue;
+      }
+      applied += plan.applied.length;
+      files++;
+    }
+
+    if (unconfirmed)
+      console.error(
+        `${unconfirmed} fix(es) change behaviour and need confirmation: re-run in a terminal or pass --yes.`,
+      );
     console.log(
-      `Baseline written to ${outPath} (${findings.length} findings recorded).`,
+      fixable.length
+        ? `${opts.dryRun ? "Would fix" : "Fixed"} ${applied} finding(s) in ${files} file(s).`
+        : "No fixable findings.",
     );
   });
 
 program
-  .command("ci")
-  .description("CI-friendly scan (strict + changed files best-effort)")
+  .command("test-rules")
+  .description(
+    "Run rule fixtures: scan each mini-repo and diff findings against its `expect:` comments",
+  )
+  .argument("[dir]", "fixtures directory (or a single fixture repo)", ".")
+  .option(
+    "--rule <id>",
+    'only compare this rule ("acme/" for a whole plugin); repeatable',
+    collectId,
+    [],
+  )
+  .option("--filter <text>", "only run fixtures whose name contains this")
+  .option("--json", "print results as JSON", false)
+  .action(async (dir: string, opts: any) => {
+    let results: FixtureResult[];
+    try {
+      results = await runRuleTests(dir, {
+        rules: opts.rule,
+        filter: opts.filter,
+      });
+    } catch (e: any) {
+      console.error(`Cannot read fixtures in ${dir}: ${e?.message ?? e}`);
+      process.exitCode = 2;
+      return;
+    }
+    const failed = results.filter((r) => !r.passed).length;
+    if (opts.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      printRuleTests(results);
+      console.log(
+        results.length
+          ? `\n${results.length} fixture(s): ${results.length - failed} passed, ${failed} failed.`
+          : "No fixtures found.",
+      );
+    }
+    if (failed || !results.length) process.exitCode = 1;
+  });
+
+const configCmd = program
+  .command("config")
+  .description("Inspect and validate vibecheck.json");
+
+configCmd
+  .command("validate")
+  .description("Validate the config file against the schema")
+  .argument("[dir]", "repo root directory", ".")
+  .action(async (dir: string) => {
+    const rootDir = path.resolve(process.cwd(), dir);
+    const loaded = await loadConfigOrExit(rootDir, {}, {});
+    if (!loaded) return;
+    console.log(
+      loaded.file
+        ? `${loaded.file}: OK${loaded.warnings.length ? ` (${loaded.warnings.length} warning(s))` : ""}`
+        : "No config file found; using defaults.",
+    );
+  });
+
+configCmd
+  .command("print")
+  .description("Print the effective config and where each value came from")
   .argument("[dir]", "repo root directory", ".")
   .option("--stack <stack>", "auto|nextjs|vite|nestjs", "auto")
   .option("--auth <auth>", "auto|nextauth|clerk|betterauth|custom|none", "auto")
-  .option("--baseline <file>", "baseline file path", ".vibecheck-baseline.json")
-  .option("--format <format>", "console|json|sarif", "console")
-  .option("--out <file>", "write report to file (json/sarif)", "")
-  .action(async (dir: string, opts: any) => {
-    const args = [
-      "scan",
-      dir,
-      "--strict",
-      "--changed",
-      "--stack",
-      opts.stack,
-      "--auth",
-      opts.auth,
-      "--baseline",
-      opts.baseline,
-      "--format",
-      opts.format,
-    ];
-    if (opts.out) args.push("--out", opts.out);
-
-    console.log(`Tip: in CI, run: vibecheck ${args.join(" ")}`);
-    console.log(
-      `(This command exists mainly as a convenience wrapper for documentation.)`,
+  .option(
+    "--rule <id=severity>",
+    "override a rule's severity (or off); repeatable",
+    collectRule,
+    {},
+  )
+  .option(
+    "--min-severity <severity>",
+    "hide findings below this severity (overrides output.minSeverity)",
+    parseMinSeverity,
+  )
+  .option("--json", "print as JSON", false)
+  .action(async (dir: string, opts: any, cmd: Command) => {
+    const rootDir = path.resolve(process.cwd(), dir);
+    const { deps } = await detectRepo(rootDir);
+    const loaded = await loadConfigOrExit(
+      rootDir,
+      cliOverrideFrom(opts, cmd),
+      deps,
+    );
+    if (!loaded) return;
+
+    const { config, sources, file, files } = loaded;
+    if (opts.json) {
+      console.log(JSON.stringify({ file, files, config, sources }, null, 2));
+      return;
+    }
+
+    console.log(`# config file: ${file ?? "(none)"}`);
+    if (files.length > 1) console.log(`# merged from: ${files.join(" <- ")}`);
+    for (const [key, value] of Object.entries(config)) {
+      const from = (sources[key] ?? ["file"]).join(", ");
+      console.log(`${key}: ${JSON.stringify(value)}  # ${from}`);
+    }
+  });
+
+program
+  .command("rules")
+  .description(
+    "List rules, the capabilities they need and whether they're enabled",
+  )
+  .argument(
+    "[dir]",
+    "repo root directory (for config and capability detection)",
+    ".",
+  )
+  .option("--stack <stack>", "auto|nextjs|vite|nestjs", "auto")
+  .option(
+    "--rule <id=severity>",
+    "override a rule's severity (or off); repeatable",
+    collectRule,
+    {},
+  )
+  .option("--json", "print as JSON", false)
+  .action(async (dir: string, opts: any, cmd: Command) => {
+    const rootDir = path.resolve(process.cwd(), dir);
+    const { repo, deps } = await detectRepo(rootDir);
+    const loaded = await loadConfigOrExit(
+      rootDir,
+      cliOverrideFrom(opts, cmd),
+      deps,
+    );
+    if (!loaded) return;
+    const { config } = loaded;
+    const capabilities = resolveCapabilities(repo.capabilities, config);
+    const caps = capabilities.map((c) => c.capability);
+    const stack = stackFromCapabilities(caps);
+
+    const statuses = [...ALL_RULES, ...loaded.rules].map((r) =>
+      ruleStatus(r, config, { stack, capabilities: caps }),
     );
+    const packages = (await configuredWorkspaces(rootDir, config)).map((p) => {
+      const detected = resolveCapabilities(p.capabilities, config);
+      return {
+        name: p.name,
+        path: p.path,
+        stack: stackFromCapabilities(detected.map((c) => c.capability)),
+        capabilities: detected,
+      };
+    });
+    if (opts.json) {
+      console.log(
+        JSON.stringify(
+          { stack, capabilities, packages, rules: statuses },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+    console.log(`# stack: ${stack}`);
+    console.log(`# capabilities: ${formatCapabilities(capabilities)}`);
+    for (const p of packages)
+      console.log(
+        `# package ${p.path} (${p.name}): ${p.stack}; ${formatCapabilities(p.capabilities)}`,
+      );
+    for (const line of formatRuleList(statuses)) console.log(line);
+  });
+
+program
+  .command("explain")
+  .description("Print a rule's documentation")
+  .argument("<rule-id>", "rule id, e.g. prisma-missing-tenant-filter")
+  .argument("[dir]", "repo root directory (for plugin rules)", ".")
+  .option("--json", "print as JSON", false)
+  .action(async (id: string, dir: string, opts: any) => {
+    const rootDir = path.resolve(process.cwd(), dir);
+    const loaded = await loadConfigOrExit(rootDir, {}, {});
+    if (!loaded) return;
+    const rule = [...ALL_RULES, ...loaded.rules].find((r) => r.id === id);
+    if (!rule) {
+      console.error(
+        `Unknown rule "${id}". Run \`vibecheck rules\` to list rules.`,
+      );
+      process.exitCode = 2;
+      return;
+    }
+    if (opts.json) {
+      const { run: _run, ...meta } = rule;
+      console.log(JSON.stringify(meta, null, 2));
+      return;
+    }
+    for (const line of formatRuleDoc(rule)) console.log(line);
   });
 
 program.parse(process.argv);
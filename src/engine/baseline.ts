@@ -1,49 +1,323 @@
+import path from "node:path";
+import { createHash } from "node:crypto";
 import { readFile, writeFile } from "node:fs/promises";
 import type { Finding } from "./types.js";
+import { toPosix } from "../utils/path.js";
 
-export interface Baseline {
+/**
+ * Baseline files record known findings so scans only report new ones.
+ *
+ * v2 (current): repo-relative paths + a fingerprint of the rule id and the
+ * normalized source around the finding (its line and the nearest non-blank
+ * line on each side), so findings survive line shifts and checkout moves, and
+ * identical one-liners in different places stay distinct.
+ * v1 (legacy, still applied): ruleId|severity|absolute file|line|col|message.
+ */
+
+export interface BaselineV1 {
   version: 1;
   items: { key: string; count: number }[];
 }
 
+export interface BaselineItem {
+  ruleId: string;
+  /** Repo-relative, posix separators. */
+  file: string;
+  fingerprint: string;
+  count: number;
+}
+
+export interface BaselineV2 {
+  version: 2;
+  items: BaselineItem[];
+}
+
+export type Baseline = BaselineV1 | BaselineV2;
+
+/** Reads a file's contents; "" when unreadable (e.g. RuleContext.getSource). */
+export type SourceReader = (abs: string) => Promise<string>;
+
 export function keyOf(f: Finding): string {
   return [f.ruleId, f.severity, f.file, String(f.line ?? ""), String(f.col ?? ""), f.message].join("|");
 }
 
+/**
+ * The finding's line plus the nearest non-blank line above and below, each
+ * trimmed and whitespace-collapsed.
+ */
+export function normalizedSnippet(code: string, line: number): string {
+  const lines = code
+    .split(/\r?\n/)
+    .map((l) => l.trim().replace(/\s+/g, " "));
+  const at = line - 1;
+  let before = at - 1;
+  while (before >= 0 && !lines[before]) before--;
+  let after = at + 1;
+  while (after < lines.length && !lines[after]) after++;
+  return [lines[before] ?? "", lines[at] ?? "", lines[after] ?? ""].join("\n");
+}
+
+// Rules file findings about a whole file (missing guard, config problems) at
+// 1:0; their first line says nothing about them, so the message is used.
+function isFileLevel(f: Finding): boolean {
+  return f.line == null || (f.line === 1 && !f.col);
+}
+
+export function relFile(rootDir: string, abs: string): string {
+  return toPosix(path.isAbsolute(abs) ? path.relative(rootDir, abs) : abs);
+}
+
+/**
+ * Stable id for a finding: rule id + normalized snippet. File-level findings
+ * (no line, or at 1:0) and findings whose source is unavailable use the
+ * message instead of a snippet.
+ */
+export async function fingerprintOf(
+  f: Finding,
+  getSource: SourceReader,
+): Promise<string> {
+  const code = isFileLevel(f) ? "" : await getSource(f.file).catch(() => "");
+  const snippet = code ? normalizedSnippet(code, f.line!) : "";
+  return createHash("sha1")
+    .update([f.ruleId, snippet || f.message].join("\n"))
+    .digest("hex")
+    .slice(0, 20);
+}
+
+function itemKey(i: { file: string; fingerprint: string }): string {
+  return `${i.file}|${i.fingerprint}`;
+}
+
+/**
+ * Per-finding ids for report formats (GitLab Code Quality, SARIF): the
+ * baseline key (repo-relative file + fingerprint) plus an occurrence number
+ * for identical findings, so a finding has the same identity everywhere.
+ */
+export async function stableFindingIds(
+  findings: Finding[],
+  rootDir: string,
+  getSource: SourceReader,
+): Promise<string[]> {
+  const seen = new Map<string, number>();
+  const ids: string[] = [];
+  for (const f of findings) {
+    const key = itemKey({
+      file: relFile(rootDir, f.file),
+      fingerprint: await fingerprintOf(f, getSource),
+    });
+    const n = seen.get(key) ?? 0;
+    seen.set(key, n + 1);
+    ids.push(
+      createHash("sha1").update(`${key}|${n}`).digest("hex").slice(0, 32),
+    );
+  }
+  return ids;
+}
+
 export async function loadBaseline(p: string): Promise<Baseline> {
   try {
     return JSON.parse(await readFile(p, "utf8"));
   } catch {
-    return { version: 1, items: [] };
+    return { version: 2, items: [] };
   }
 }
 
-export async function writeBaseline(p: string, findings: Finding[]): Promise<void> {
-  const counts = new Map<string, number>();
+// Stable order keeps baseline diffs readable.
+function sortItems(items: BaselineItem[]): BaselineItem[] {
+  return items.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.ruleId.localeCompare(b.ruleId) ||
+      a.fingerprint.localeCompare(b.fingerprint),
+  );
+}
+
+export async function buildBaseline(
+  findings: Finding[],
+  rootDir: string,
+  getSource: SourceReader,
+): Promise<BaselineV2> {
+  const items = new Map<string, BaselineItem>();
   for (const f of findings) {
-    const k = keyOf(f);
-    counts.set(k, (counts.get(k) ?? 0) + 1);
+    const item = {
+      ruleId: f.ruleId,
+      file: relFile(rootDir, f.file),
+      fingerprint: await fingerprintOf(f, getSource),
+      count: 1,
+    };
+    const prev = items.get(itemKey(item));
+    if (prev) prev.count++;
+    else items.set(itemKey(item), item);
   }
-  const baseline: Baseline = {
-    version: 1,
-    items: Array.from(counts.entries()).map(([key, count]) => ({ key, count }))
-  };
-  await writeFile(p, JSON.stringify(baseline, null, 2), "utf8");
+  return { version: 2, items: sortItems([...items.values()]) };
 }
 
-export function applyBaseline(findings: Finding[], baseline: Baseline): Finding[] {
+export async function writeBaseline(
+  p: string,
+  findings: Finding[],
+  rootDir: string,
+  getSource: SourceReader,
+): Promise<BaselineV2> {
+  const baseline = await buildBaseline(findings, rootDir, getSource);
+  await saveBaseline(p, baseline);
+  return baseline;
+}
+
+export async function saveBaseline(
+  p: string,
+  baseline: Baseline,
+): Promise<void> {
+  await writeFile(p, JSON.stringify(baseline, null, 2) + "\n", "utf8");
+}
+
+export interface BaselineDiff {
+  /** Findings the baseline doesn't cover. */
+  introduced: Finding[];
+  /** Findings matched by a baseline entry. */
+  baselined: Finding[];
+  /** Entries (in scanned files) that matched fewer findings than recorded. */
+  fixed: { ruleId: string; file: string; key: string; count: number }[];
+}
+
+/**
+ * Match findings against a baseline. Only entries for `scannedFiles` (default:
+ * every entry) can count as fixed, so partial scans don't report the rest.
+ */
+export async function diffBaseline(
+  findings: Finding[],
+  baseline: Baseline,
+  rootDir: string,
+  getSource: SourceReader,
+  scannedFiles?: string[],
+): Promise<BaselineDiff> {
+  const entries =
+    baseline.version === 2
+      ? baseline.items.map((i) => ({
+          ruleId: i.ruleId,
+          file: i.file,
+          key: itemKey(i),
+          count: i.count,
+        }))
+      : (baseline.items ?? []).map((i) => {
+          const f = parseV1Key(i.key);
+          return {
+            ruleId: f?.ruleId ?? "",
+            file: f ? relFile(rootDir, f.file) : "",
+            key: i.key,
+            count: i.count,
+          };
+        });
+  const allowed = new Map(entries.map((e) => [e.key, e.count]));
+
   const seen = new Map<string, number>();
-  const allowed = new Map(baseline.items.map((i) => [i.key, i.count]));
-  const out: Finding[] = [];
+  const introduced: Finding[] = [];
+  const baselined: Finding[] = [];
   for (const f of findings) {
-    const k = keyOf(f);
+    const k =
+      baseline.version === 2
+        ? itemKey({
+            file: relFile(rootDir, f.file),
+            fingerprint: await fingerprintOf(f, getSource),
+          })
+        : keyOf(f);
     const cur = seen.get(k) ?? 0;
     const lim = allowed.get(k) ?? 0;
     if (cur < lim) {
       seen.set(k, cur + 1);
+      baselined.push(f);
       continue;
     }
-    out.push(f);
+    introduced.push(f);
   }
-  return out;
+
+  const scanned = scannedFiles
+    ? new Set(scannedFiles.map((f) => relFile(rootDir, f)))
+    : null;
+  const fixed = entries
+    .filter((e) => !scanned || scanned.has(e.file))
+    .map((e) => ({ ...e, count: e.count - (seen.get(e.key) ?? 0) }))
+    .filter((e) => e.count > 0);
+
+  return { introduced, baselined, fixed };
+}
+
+export async function applyBaseline(
+  findings: Finding[],
+  baseline: Baseline,
+  rootDir: string,
+  getSource: SourceReader,
+): Promise<Finding[]> {
+  return (await diffBaseline(findings, baseline, rootDir, getSource))
+    .introduced;
+}
+
+/** Baseline plus entries for `introduced` findings (existing entries kept). */
+export async function updateBaseline(
+  baseline: BaselineV2,
+  introduced: Finding[],
+  rootDir: string,
+  getSource: SourceReader,
+): Promise<BaselineV2> {
+  const added = await buildBaseline(introduced, rootDir, getSource);
+  const items = new Map(baseline.items.map((i) => [itemKey(i), { ...i }]));
+  for (const i of added.items) {
+    const prev = items.get(itemKey(i));
+    if (prev) prev.count += i.count;
+    else items.set(itemKey(i), i);
+  }
+  return { version: 2, items: sortItems([...items.values()]) };
+}
+
+/** Baseline without the entries (or counts) that no longer match a finding. */
+export function pruneBaseline(
+  baseline: BaselineV2,
+  fixed: BaselineDiff["fixed"],
+): BaselineV2 {
+  const drop = new Map(fixed.map((e) => [e.key, e.count]));
+  const items = baseline.items
+    .map((i) => ({ ...i, count: i.count - (drop.get(itemKey(i)) ?? 0) }))
+    .filter((i) => i.count > 0);
+  return { version: 2, items };
+}
+
+// v1 keys: ruleId|severity|file|line|col|message (the message may contain "|").
+function parseV1Key(key: string): Finding | null {
+  const parts = key.split("|");
+  if (parts.length < 6) return null;
+  const [ruleId, severity, file, line, col] = parts;
+  return {
+    ruleId,
+    severity: severity as Finding["severity"],
+    file,
+    line: line ? Number(line) : undefined,
+    col: col ? Number(col) : undefined,
+    message: parts.slice(5).join("|"),
+  };
+}
+
+/**
+ * Convert a v1 baseline to v2. Fingerprints use the files as they are now, so
+ * migrate before editing baselined code. v1 entries whose path is not under
+ * rootDir (e.g. recorded in another checkout) are returned as `skipped`.
+ */
+export async function migrateBaseline(
+  v1: BaselineV1,
+  rootDir: string,
+  getSource: SourceReader,
+): Promise<{ baseline: BaselineV2; skipped: number }> {
+  const findings: Finding[] = [];
+  let skipped = 0;
+  for (const item of v1.items ?? []) {
+    const f = parseV1Key(item.key);
+    const rel = f && path.relative(rootDir, f.file);
+    if (!f || !rel || rel.startsWith("..") || path.isAbsolute(rel)) {
+      skipped += item.count;
+      continue;
+    }
+    for (let i = 0; i < item.count; i++) findings.push(f);
+  }
+  return {
+    baseline: await buildBaseline(findings, rootDir, getSource),
+    skipped,
+  };
 }
@@ -0,0 +1,205 @@
+import path from "node:path";
+import { createRequire } from "node:module";
+import { pathToFileURL } from "node:url";
+import {
+  ConfigError,
+  validateConfig,
+  type ConfigIssue,
+} from "./configSchema.js";
+import { normalizeOverride } from "./overrides.js";
+import { PRESETS, PRESET_PREFIX } from "./presets.js";
+
+/**
+ * `extends` resolution + merge for vibecheck.json.
+ *
+ * Specifiers:
+ *   "./base.json"               relative to the file that extends it
+ *   "@acme/vibecheck-config"    installed package (its main file, or <pkg>/vibecheck.json)
+ *   "vibecheck:recommended"     built-in preset (see presets.ts)
+ *
+ * Merge (parents first, in array order, then the extending file):
+ *   - scalars: later value wins
+ *   - arrays (ignore, authGuards, tenantKeys, ...): concatenated, de-duplicated
+ *   - objects (auth, output, ruleOverrides): merged key by key with these same rules,
+ *     except a rule's override: its keys replace the parent's (include/exclude
+ *     globs too, as in mergeOverrides)
+ *
+ * Relative `plugins` entries are made absolute against the file that lists them.
+ */
+
+export type RawConfig = Record<string, unknown>;
+
+/** Reads + validates one JSON config file (provided by configLoader). */
+export type ReadConfigJson = (
+  file: string,
+) => Promise<{ raw: RawConfig; warnings: ConfigIssue[] }>;
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// ruleOverrides.<id>: later keys win, so a child can narrow a preset's globs
+function mergeRawOverrides(
+  base: Record<string, unknown>,
+  next: Record<string, unknown>,
+): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...base };
+  for (const [id, o] of Object.entries(next)) {
+    const prev = out[id];
+    out[id] = isPlainObject(prev) && isPlainObject(o) ? { ...prev, ...o } : o;
+  }
+  return out;
+}
+
+export function deepMergeConfig(base: RawConfig, next: RawConfig): RawConfig {
+  const out: RawConfig = { ...base };
+  for (const [k, v] of Object.entries(next)) {
+    const prev = out[k];
+    if (k === "ruleOverrides" && isPlainObject(prev) && isPlainObject(v)) {
+      out[k] = mergeRawOverrides(prev, v);
+    } else if (Array.isArray(prev) && Array.isArray(v)) {
+      out[k] = [...new Set([...prev, ...v])];
+    } else if (isPlainObject(prev) && isPlainObject(v)) {
+      out[k] = deepMergeConfig(prev, v);
+    } else {
+      out[k] = v;
+    }
+  }
+  return out;
+}
+
+// Shorthand forms would otherwise replace instead of merge:
+//   auth: "clerk"            -> { kind: "clerk" }
+//   ruleOverrides.x: "off"   -> { severity: "off" }
+function expandShorthands(raw: RawConfig): RawConfig {
+  const out: RawConfig = { ...raw };
+  if (typeof out.auth === "string") out.auth = { kind: out.auth };
+  if (isPlainObject(out.ruleOverrides)) {
+    out.ruleOverrides = Object.fromEntries(
+      Object.entries(out.ruleOverrides).map(([id, o]) => [
+        id,
+        typeof o === "string" ? normalizeOverride(o) : o,
+      ]),
+    );
+  }
+  return out;
+}
+
+function extendsError(message: string, file: string): ConfigError {
+  return new ConfigError([
+    { level: "error", path: "/extends", file, message },
+  ]);
+}
+
+async function loadModuleConfig(resolved: string): Promise<RawConfig> {
+  const mod = await import(pathToFileURL(resolved).href);
+  const v = mod?.default ?? mod;
+  if (!isPlainObject(v))
+    throw new Error("module does not export a config object");
+  return v;
+}
+
+/** Resolve a relative / package specifier to a file path (throws if not found). */
+function resolveSpecifier(spec: string, fromFile: string): string {
+  const fromDir = path.dirname(fromFile);
+  if (spec.startsWith(".") || path.isAbsolute(spec)) {
+    return path.resolve(fromDir, spec);
+  }
+
+  const req = createRequire(fromFile);
+  try {
+    return req.resolve(spec);
+  } catch {
+    return req.resolve(`${spec}/vibecheck.json`);
+  }
+}
+
+/**
+ * Returns the fully merged raw config for `file` (its `extends` chain applied),
+ * plus every file that contributed, in merge order.
+ */
+export async function resolveExtends(
+  raw: RawConfig,
+  file: string,
+  readConfigJson: ReadConfigJson,
+  stack: string[] = [],
+): Promise<{ raw: RawConfig; files: string[]; warnings: ConfigIssue[] }> {
+  const { extends: ext, ...own } = raw;
+  const specs =
+    ext == null ? [] : Array.isArray(ext) ? ext.map(String) : [String(ext)];
+
+  let merged: RawConfig = {};
+  const files: string[] = [];
+  const warnings: ConfigIssue[] = [];
+
+  for (const spec of specs) {
+    if (spec.startsWith(PRESET_PREFIX)) {
+      const preset = PRESETS[spec.slice(PRESET_PREFIX.length)];
+      if (!preset) {
+        throw extendsError(
+          `Unknown preset "${spec}" (available: ${Object.keys(PRESETS)
+            .map((p) => PRESET_PREFIX + p)
+            .join(", ")})`,
+          file,
+        );
+      }
+      merged = deepMergeConfig(merged, expandShorthands(preset));
+      files.push(spec);
+      continue;
+    }
+
+    let target: string;
+    try {
+      target = resolveSpecifier(spec, file);
+    } catch {
+      throw extendsError(`Cannot resolve extends "${spec}"`, file);
+    }
+
+    if (stack.includes(target) || target === file) {
+      throw extendsError(
+        `Circular extends: ${[...stack, file, target].join(" -> ")}`,
+        file,
+      );
+    }
+
+    let parentRaw: RawConfig;
+    if (target.endsWith(".json")) {
+      const read = await readConfigJson(target);
+      parentRaw = read.raw;
+      warnings.push(...read.warnings);
+    } else {
+      try {
+        parentRaw = await loadModuleConfig(target);
+      } catch (e: any) {
+        throw extendsError(
+          `Cannot load extends "${spec}" (${target}): ${e?.message ?? e}`,
+          file,
+        );
+      }
+      const issues = validateConfig(parentRaw, { file: target });
+      if (issues.some((i) => i.level === "error")) throw new ConfigError(issues);
+      warnings.push(...issues);
+    }
+
+    const parent = await resolveExtends(parentRaw, target, readConfigJson, [
+      ...stack,
+      file,
+    ]);
+    merged = deepMergeConfig(merged, parent.raw);
+    files.push(...parent.files);
+    warnings.push(...parent.warnings);
+  }
+
+  // Local plugin paths are relative to the file that lists them.
+  if (Array.isArray(own.plugins)) {
+    own.plugins = own.plugins.map((p) =>
+      typeof p === "string" && p.startsWith(".")
+        ? path.resolve(path.dirname(file), p)
+        : p,
+    );
+  }
+
+  merged = deepMergeConfig(merged, expandShorthands(own));
+  files.push(file);
+  return { raw: merged, files, warnings };
+}
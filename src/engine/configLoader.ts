@@ -1,11 +1,34 @@
 import path from "node:path";
+import { existsSync } from "node:fs";
 import { readFile } from "node:fs/promises";
 import fg from "fast-glob";
-import type { CheckerConfig } from "./types.js";
+import type {
+  AuthHints,
+  AuthKind,
+  CheckerConfig,
+  ConfigSource,
+  OutputConfig,
+  Rule,
+} from "./types.js";
 import {
   discoverAuthGuardsFromCode,
   shouldScanFileForGuards,
 } from "../utils/discoverAuthGuards.js";
+import { mergeOverrides, normalizeOverrides } from "./overrides.js";
+import { parseSeverity } from "./severity.js";
+import {
+  ConfigError,
+  validateConfig,
+  type ConfigIssue,
+} from "./configSchema.js";
+import { parseJsonWithLocations, JsonSyntaxError } from "../utils/json.js";
+import { resolveExtends, type RawConfig } from "./configExtends.js";
+import { loadPlugins, pluginRules, type LoadedPlugin } from "./plugins.js";
+import { compileCustomRules } from "./customRules.js";
+import { ALL_RULES } from "../rules/index.js";
+import { authKindFromDeps } from "../scanner/capabilities.js";
+
+export { ConfigError };
 
 const CONFIG_FILES = [
   "vibecheck.json",
@@ -13,27 +36,168 @@ const CONFIG_FILES = [
   ".vibecheckrc.json",
 ];
 
-export async function loadConfig(
+export interface LoadedConfig {
+  config: CheckerConfig;
+  /** Top-level key -> where its effective value came from. */
+  sources: Record<string, ConfigSource[]>;
+  /** Absolute path of the config file used, if any. */
+  file: string | null;
+  /** Every file/preset merged into the config, parents first (via `extends`). */
+  files: string[];
+  /** Non-fatal schema issues (e.g. deprecated keys). */
+  warnings: ConfigIssue[];
+  /** Rule plugins listed in `plugins`, loaded and validated. */
+  plugins: LoadedPlugin[];
+  /** Rules the config adds to the built-ins: plugin rules, then customRules. */
+  rules: Rule[];
+}
+
+const DEFAULTS: CheckerConfig = {
+  stack: "auto",
+  auth: "auto",
+  authHints: {},
+  authGuards: ["getServerSession", "auth", "unstable_getServerSession"],
+  ignore: [],
+  maxFileBytes: 1_000_000,
+  ruleOverrides: {},
+  output: {},
+  suppressions: {},
+};
+
+/** Read, parse and validate a single JSON config file. */
+async function readConfigJson(
+  file: string,
+): Promise<{ raw: RawConfig; warnings: ConfigIssue[] }> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (e: any) {
+    throw new ConfigError([
+      {
+        level: "error",
+        path: "",
+        file,
+        message: `Cannot read config: ${String(e?.message ?? e)}`,
+      },
+    ]);
+  }
+
+  let parsed: ReturnType<typeof parseJsonWithLocations>;
+  try {
+    parsed = parseJsonWithLocations(text);
+  } catch (e: any) {
+    const loc =
+      e instanceof JsonSyntaxError ? { line: e.line, col: e.col } : {};
+    const msg = String(e?.message ?? e).replace(/ \(line \d+, col \d+\)$/, "");
+    throw new ConfigError([
+      { level: "error", path: "", file, ...loc, message: `Invalid JSON: ${msg}` },
+    ]);
+  }
+
+  const issues = validateConfig(parsed.value, {
+    file,
+    locate: parsed.locate,
+  });
+  if (issues.some((i) => i.level === "error")) throw new ConfigError(issues);
+
+  return { raw: parsed.value as RawConfig, warnings: issues };
+}
+
+/**
+ * Read + validate the first config file found in rootDir, with its `extends`
+ * chain merged in. Returns null when there is none; throws ConfigError when
+ * any file in the chain is invalid.
+ */
+export async function readConfigFile(rootDir: string): Promise<{
+  file: string;
+  files: string[];
+  raw: RawConfig;
+  warnings: ConfigIssue[];
+} | null> {
+  for (const name of CONFIG_FILES) {
+    const file = path.join(rootDir, name);
+    if (!existsSync(file)) continue;
+
+    const own = await readConfigJson(file);
+    const resolved = await resolveExtends(own.raw, file, readConfigJson);
+    return {
+      file,
+      files: resolved.files,
+      raw: resolved.raw,
+      warnings: [...resolved.warnings, ...own.warnings],
+    };
+  }
+  return null;
+}
+
+// vibecheck.json may say "medium"; the engine only knows "med".
+function normalizeOutput(raw: unknown): OutputConfig {
+  if (!raw || typeof raw !== "object") return {};
+  const r = raw as Record<string, unknown>;
+  const out: OutputConfig = {};
+  const sev = parseSeverity(r.minSeverity);
+  if (sev) out.minSeverity = sev;
+  const max = Number(r.maxFindingsPerRule);
+  if (r.maxFindingsPerRule != null && Number.isFinite(max) && max >= 0)
+    out.maxFindingsPerRule = Math.floor(max);
+  return out;
+}
+
+// `auth` is either a kind ("clerk") or an object of hints (+ optional kind).
+function splitAuth(raw: unknown): { kind?: AuthKind; hints?: AuthHints } {
+  if (typeof raw === "string") return { kind: raw as AuthKind };
+  if (!raw || typeof raw !== "object") return {};
+  const { kind, ...hints } = raw as AuthHints & { kind?: AuthKind };
+  return { kind, hints };
+}
+
+/**
+ * Merge order: defaults < config file < CLI override, then discovered auth
+ * guards are appended to authGuards and `auth: "auto"` is resolved from
+ * `deps`. Tracks where each key came from.
+ * Loads `plugins` and compiles `customRules` too, so a broken plugin or
+ * custom rule is a ConfigError like a bad key.
+ */
+export async function loadConfigWithSources(
   rootDir: string,
   override: Partial<CheckerConfig>,
   deps: Record<string, string>,
-): Promise<CheckerConfig> {
-  let fileConfig: Partial<CheckerConfig> = {};
-  for (const name of CONFIG_FILES) {
-    try {
-      fileConfig = JSON.parse(await readFile(path.join(rootDir, name), "utf8"));
-      break;
-    } catch {}
+): Promise<LoadedConfig> {
+  const found = await readConfigFile(rootDir);
+  const { auth: rawAuth, $schema: _schema, ...fileConfig } = (found?.raw ??
+    {}) as Record<string, any>;
+  const fileAuth = splitAuth(rawAuth);
+
+  const sources: Record<string, ConfigSource[]> = {};
+  for (const k of Object.keys(DEFAULTS)) sources[k] = ["default"];
+  for (const k of Object.keys(fileConfig)) sources[k] = ["file"];
+  if (fileAuth.kind) sources.auth = ["file"];
+  if (fileAuth.hints && Object.keys(fileAuth.hints).length)
+    sources.authHints = ["file"];
+  for (const [k, v] of Object.entries(override)) {
+    if (v === undefined) continue;
+    // ruleOverrides/output merge with the file instead of replacing it
+    if (k === "ruleOverrides" || k === "output") {
+      if (!Object.keys(v as object).length) continue;
+      sources[k] = k in fileConfig ? ["file", "cli"] : ["cli"];
+    } else sources[k] = ["cli"];
   }
 
   const merged: CheckerConfig = {
-    stack: "auto",
-    auth: "auto",
-    authGuards: ["getServerSession", "auth", "unstable_getServerSession"],
-    ignore: [],
-    maxFileBytes: 1_000_000,
+    ...DEFAULTS,
     ...fileConfig,
+    ...(fileAuth.kind ? { auth: fileAuth.kind } : {}),
+    authHints: fileAuth.hints ?? {},
     ...override,
+    // ruleOverrides merge per rule so `--rule x=off` doesn't drop file globs for other rules
+    ruleOverrides: mergeOverrides(
+      normalizeOverrides(fileConfig.ruleOverrides),
+      normalizeOverrides(override.ruleOverrides),
+    ),
+    output: {
+      ...normalizeOutput(fileConfig.output),
+      ...normalizeOutput(override.output),
+    },
   };
 
   // best-effort: discover guard helper names in your repo (so rules can check for them)
@@ -48,19 +212,54 @@ export async function loadConfig(
       },
     );
 
-    const found = new Set<string>();
+    const discovered = new Set<string>();
     for (const abs of candidates.slice(0, 400)) {
       const rp = abs.startsWith(rootDir) ? abs.slice(rootDir.length + 1) : abs;
       if (!shouldScanFileForGuards(rp)) continue;
       const code = await readFile(abs, "utf8").catch(() => "");
-      for (const g of discoverAuthGuardsFromCode(code)) found.add(g);
+      for (const g of discoverAuthGuardsFromCode(code)) discovered.add(g);
     }
 
-    if (found.size) {
-      merged.authGuards = Array.from(new Set([...merged.authGuards, ...found]));
+    const before = merged.authGuards.length;
+    if (discovered.size) {
+      merged.authGuards = Array.from(
+        new Set([...merged.authGuards, ...discovered]),
+      );
     }
+    if (merged.authGuards.length > before)
+      sources.authGuards = [...sources.authGuards, "discovered"];
   } catch {}
 
-  void deps;
-  return merged;
+  const plugins = await loadPlugins(merged.plugins ?? [], rootDir, found?.file);
+  const fromPlugins = pluginRules(plugins);
+  const custom = compileCustomRules(
+    merged.customRules ?? [],
+    [...ALL_RULES, ...fromPlugins].map((r) => r.id),
+    found?.file,
+  );
+
+  // auth: "auto" resolves to the auth library in package.json, if just one
+  const authKind = merged.auth === "auto" ? authKindFromDeps(deps) : null;
+  if (authKind) {
+    merged.auth = authKind;
+    sources.auth = [...sources.auth, "discovered"];
+  }
+
+  return {
+    config: merged,
+    sources,
+    file: found?.file ?? null,
+    files: found?.files ?? [],
+    warnings: found?.warnings ?? [],
+    plugins,
+    rules: [...fromPlugins, ...custom],
+  };
+}
+
+export async function loadConfig(
+  rootDir: string,
+  override: Partial<CheckerConfig>,
+  deps: Record<string, string>,
+): Promise<CheckerConfig> {
+  return (await loadConfigWithSources(rootDir, override, deps)).config;
 }
@@ -0,0 +1,222 @@
+import { readFileSync } from "node:fs";
+import { escapePointer, type JsonLocation } from "../utils/json.js";
+
+/**
+ * Validates config objects against vibecheck.schema.json (repo root, published
+ * with the package). Only the JSON Schema subset the schema uses is supported:
+ * type, enum, properties, required, additionalProperties, items, minimum,
+ * oneOf, $ref (local #/definitions) and the `deprecated` annotation (reported
+ * as a warning).
+ */
+
+// src/engine/ and dist/engine/ are both two levels below the package root.
+const SCHEMA_URL = new URL("../../vibecheck.schema.json", import.meta.url);
+
+export type ConfigIssue = {
+  level: "error" | "warning";
+  /** JSON Pointer into the config, "" for the root. */
+  path: string;
+  message: string;
+  file?: string;
+  line?: number;
+  col?: number;
+};
+
+type Schema = Record<string, any>;
+
+let cached: Schema | null = null;
+
+export function configSchema(): Schema {
+  if (!cached) cached = JSON.parse(readFileSync(SCHEMA_URL, "utf8"));
+  return cached!;
+}
+
+export function formatIssue(i: ConfigIssue): string {
+  const loc = i.file
+    ? `${i.file}${i.line != null ? `:${i.line}:${i.col ?? 1}` : ""}: `
+    : "";
+  return `${loc}${i.level}: ${i.message}${i.path ? ` (at ${i.path})` : ""}`;
+}
+
+/** Thrown when a config file is unreadable, not JSON, or fails the schema. */
+export class ConfigError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      issues
+        .filter((i) => i.level === "error")
+        .map(formatIssue)
+        .join("\n"),
+    );
+    this.name = "ConfigError";
+  }
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number" && Number.isInteger(v)) return "integer";
+  return typeof v;
+}
+
+function typeMatches(expected: string, v: unknown): boolean {
+  const actual = typeOf(v);
+  if (expected === "number") return actual === "number" || actual === "integer";
+  return expected === actual;
+}
+
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0];
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j];
+      dp[j] =
+        a[i - 1] === b[j - 1] ? prev : 1 + Math.min(prev, dp[j], dp[j - 1]);
+      prev = tmp;
+    }
+  }
+  return dp[b.length];
+}
+
+function suggest(key: string, known: string[]): string {
+  let best = "";
+  let bestD = Infinity;
+  for (const k of known) {
+    const d = editDistance(key.toLowerCase(), k.toLowerCase());
+    if (d < bestD) {
+      best = k;
+      bestD = d;
+    }
+  }
+  return bestD <= 2 ? ` (did you mean "${best}"?)` : "";
+}
+
+function resolve(root: Schema, s: Schema): Schema {
+  let cur = s;
+  while (cur.$ref) {
+    const name = String(cur.$ref).replace(/^#\/definitions\//, "");
+    // keep sibling annotations (description/deprecated) next to the $ref
+    const { $ref: _ref, ...rest } = cur;
+    cur = { ...root.definitions[name], ...rest };
+  }
+  return cur;
+}
+
+function check(
+  root: Schema,
+  schemaIn: Schema,
+  v: unknown,
+  ptr: string,
+  out: ConfigIssue[],
+): void {
+  const s = resolve(root, schemaIn);
+
+  if (s.deprecated) {
+    out.push({
+      level: "warning",
+      path: ptr,
+      message: `Deprecated option${s.description ? `: ${s.description}` : ""}`,
+    });
+  }
+
+  if (s.oneOf) {
+    const branches = (s.oneOf as Schema[]).map((b) => {
+      const errs: ConfigIssue[] = [];
+      check(root, b, v, ptr, errs);
+      return errs;
+    });
+    const ok = branches.find((b) => !b.some((e) => e.level === "error"));
+    if (ok) {
+      out.push(...ok);
+      return;
+    }
+    // Report the branch that matches the value's shape (object vs scalar).
+    const shaped = (s.oneOf as Schema[]).findIndex((b) => {
+      const r = resolve(root, b);
+      return r.type ? typeMatches(r.type, v) : !r.enum || typeOf(v) !== "object";
+    });
+    out.push(...branches[shaped >= 0 ? shaped : 0]);
+    return;
+  }
+
+  if (s.enum && !(s.enum as unknown[]).includes(v)) {
+    out.push({
+      level: "error",
+      path: ptr,
+      message: `Expected one of ${(s.enum as unknown[])
+        .map((e) => JSON.stringify(e))
+        .join(", ")}, got ${JSON.stringify(v)}`,
+    });
+    return;
+  }
+
+  if (s.type && !typeMatches(s.type, v)) {
+    out.push({
+      level: "error",
+      path: ptr,
+      message: `Expected ${s.type}, got ${typeOf(v)}`,
+    });
+    return;
+  }
+
+  if (typeof s.minimum === "number" && typeof v === "number" && v < s.minimum) {
+    out.push({
+      level: "error",
+      path: ptr,
+      message: `Must be >= ${s.minimum}`,
+    });
+  }
+
+  if (Array.isArray(v) && s.items) {
+    v.forEach((item, idx) => check(root, s.items, item, `${ptr}/${idx}`, out));
+  }
+
+  if (typeOf(v) === "object" && Array.isArray(s.required)) {
+    for (const k of s.required as string[]) {
+      if (!(k in (v as object))) {
+        out.push({
+          level: "error",
+          path: ptr,
+          message: `Missing required option "${k}"`,
+        });
+      }
+    }
+  }
+
+  if (typeOf(v) === "object" && (s.properties || s.additionalProperties != null)) {
+    const props: Schema = s.properties ?? {};
+    for (const [k, child] of Object.entries(v as Record<string, unknown>)) {
+      const childPtr = `${ptr}/${escapePointer(k)}`;
+      if (props[k]) {
+        check(root, props[k], child, childPtr, out);
+      } else if (s.additionalProperties === false) {
+        out.push({
+          level: "error",
+          path: childPtr,
+          message: `Unknown option "${k}"${suggest(k, Object.keys(props))}`,
+        });
+      } else if (typeof s.additionalProperties === "object") {
+        check(root, s.additionalProperties, child, childPtr, out);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a parsed config. `locate` maps JSON Pointers to file positions
+ * (see utils/json.ts) so issues can carry line/col.
+ */
+export function validateConfig(
+  value: unknown,
+  opts: { file?: string; locate?: (ptr: string) => JsonLocation | undefined } = {},
+): ConfigIssue[] {
+  const schema = configSchema();
+  const out: ConfigIssue[] = [];
+  check(schema, schema, value, "", out);
+  return out.map((i) => ({
+    ...i,
+    file: opts.file,
+    ...(opts.locate?.(i.path) ?? {}),
+  }));
+}
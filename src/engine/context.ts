@@ -0,0 +1,51 @@
+import type {
+  Capability,
+  CheckerConfig,
+  RuleContext,
+  StackName,
+} from "./types.js";
+import { createSourceCache, type SourceCache } from "./sourceCache.js";
+
+/**
+ * Build the RuleContext for a scan, with a fresh shared source/AST cache
+ * unless one is passed in.
+ */
+export function createRuleContext(opts: {
+  rootDir: string;
+  /** Default: rootDir (only differs for workspace packages). */
+  repoRoot?: string;
+  files: string[];
+  config: CheckerConfig;
+  stack: StackName;
+  capabilities?: Capability[];
+  sources?: SourceCache;
+}): RuleContext {
+  const { rootDir, files, config, stack } = opts;
+  const cache = opts.sources ?? createSourceCache(config.maxFileBytes);
+
+  return {
+    rootDir,
+    repoRoot: opts.repoRoot ?? rootDir,
+    files,
+    relPaths: files.map((f) =>
+      f.startsWith(rootDir) ? f.slice(rootDir.length + 1) : f,
+    ),
+    getSource: cache.getSource,
+    getAst: cache.getAst,
+    parseIssues: cache.parseIssues,
+    config,
+    repo: { stack, capabilities: opts.capabilities ?? [] },
+  };
+}
+
+/** Same context (and cache) restricted to a subset of its files. */
+export function withFiles(ctx: RuleContext, files: string[]): RuleContext {
+  if (files === ctx.files) return ctx;
+  return {
+    ...ctx,
+    files,
+    relPaths: files.map((f) =>
+      f.startsWith(ctx.rootDir) ? f.slice(ctx.rootDir.length + 1) : f,
+    ),
+  };
+}
@@ -0,0 +1,305 @@
+import path from "node:path";
+import ignoreModule, { type Ignore } from "ignore";
+import type {
+  CustomRuleConfig,
+  CustomRuleFileKind,
+  Finding,
+  Rule,
+  Severity,
+} from "./types.js";
+import { ConfigError, type ConfigIssue } from "./configSchema.js";
+import { parseSeverity } from "./severity.js";
+import { isParsableFile } from "../utils/ast.js";
+import { traverseAst } from "../utils/traverse.js";
+import { firstLineCol } from "../rules/_shared.js";
+import { toPosix } from "../utils/path.js";
+
+const ignore: () => Ignore =
+  (ignoreModule as any).default ?? (ignoreModule as any);
+
+/**
+ * `customRules` in vibecheck.json: one-off policies without a Rule module.
+ *
+ *   {
+ *     "id": "no-legacy-db",
+ *     "severity": "high",
+ *     "files": ["app/**"],
+ *     "fileKind": "route-handler",
+ *     "selector": "call:legacyDb.*",
+ *     "mustNotContain": "withTenant\\(",
+ *     "message": "{match}() bypasses the tenant wrapper.",
+ *     "fixHint": "Use db.* inside withTenant()."
+ *   }
+ *
+ * Each entry compiles to a file-scoped Rule, so overrides, suppressions, the
+ * cache and every report treat it like a built-in rule.
+ *
+ * Selectors (`*` matches any run of identifier characters and dots):
+ *   call:<callee>    fetch, legacyDb.*, *.findMany
+ *   new:<callee>     PrismaClient
+ *   import:<module>  import / export-from / require() / import() sources
+ */
+
+const ID_RE = /^[a-z0-9][a-z0-9-]*(\/[a-z0-9][a-z0-9-]*)?$/;
+const SELECTOR_RE = /^(call|new|import):(.+)$/;
+const ALL_STACKS: Rule["stack"] = ["nextjs", "vite", "nestjs", "auto"];
+
+type Selector = { kind: "call" | "new" | "import"; pattern: RegExp };
+
+const USE_CLIENT_RE =
+  /^(?:\s|\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)*["']use client["']/;
+const ROUTE_HANDLER_RE =
+  /(^|\/)app\/(.*\/)?route\.(ts|tsx|js|jsx|mjs)$|(^|\/)pages\/api\//;
+const MIDDLEWARE_RE = /(^|\/)middleware\.(ts|js|mjs)$/;
+
+function isFileKind(
+  kind: CustomRuleFileKind,
+  relPath: string,
+  code: string,
+): boolean {
+  switch (kind) {
+    case "client-component":
+      return USE_CLIENT_RE.test(code);
+    case "route-handler":
+      return ROUTE_HANDLER_RE.test(relPath);
+    case "middleware":
+      return MIDDLEWARE_RE.test(relPath);
+  }
+}
+
+function wildcard(pattern: string, star: string): RegExp {
+  const src = pattern
+    .split("*")
+    .map((p) => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(star);
+  return new RegExp(`^${src}$`);
+}
+
+// "a.b.c" for identifier / non-computed member chains, null otherwise.
+function calleeName(node: any): string | null {
+  if (!node) return null;
+  if (node.type === "Identifier") return node.name;
+  if (node.type === "ThisExpression") return "this";
+  if (
+    node.type === "MemberExpression" ||
+    node.type === "OptionalMemberExpression"
+  ) {
+    const obj = calleeName(node.object);
+    const prop = node.computed
+      ? node.property.type === "StringLiteral"
+        ? node.property.value
+        : null
+      : node.property.name;
+    return obj && prop ? `${obj}.${prop}` : null;
+  }
+  return null;
+}
+
+function stringArg(node: any): string | null {
+  if (node?.type === "StringLiteral") return node.value;
+  if (node?.type === "TemplateLiteral" && node.expressions.length === 0)
+    return node.quasis[0].value.cooked;
+  return null;
+}
+
+type Match = { text: string; line: number; col: number };
+
+function selectorMatches(ast: any, sel: Selector): Match[] {
+  const out: Match[] = [];
+  const push = (text: string | null, node: any) => {
+    if (text == null || !sel.pattern.test(text)) return;
+    const loc = node.loc?.start;
+    out.push({ text, line: loc?.line ?? 1, col: loc?.column ?? 0 });
+  };
+  const source = (path: any) =>
+    push(path.node.source?.value ?? null, path.node);
+
+  const visitors: Record<string, (path: any) => void> =
+    sel.kind === "import"
+      ? {
+          ImportDeclaration: source,
+          ExportNamedDeclaration: source,
+          ExportAllDeclaration: source,
+          CallExpression(path) {
+            const { callee, arguments: args } = path.node;
+            if (
+              callee.type === "Import" ||
+              (callee.type === "Identifier" && callee.name === "require")
+            )
+              push(stringArg(args[0]), path.node);
+          },
+          ImportExpression(path) {
+            push(stringArg(path.node.source), path.node);
+          },
+        }
+      : sel.kind === "call"
+        ? {
+            "CallExpression|OptionalCallExpression"(path) {
+              push(calleeName(path.node.callee), path.node);
+            },
+          }
+        : {
+            NewExpression(path) {
+              push(calleeName(path.node.callee), path.node);
+            },
+          };
+  traverseAst(ast, visitors);
+  return out;
+}
+
+function regexMatches(code: string, re: RegExp): Match[] {
+  const out: Match[] = [];
+  for (const m of code.matchAll(re)) {
+    out.push({ text: m[0], ...firstLineCol(code, m.index ?? 0) });
+  }
+  return out;
+}
+
+function compileOne(
+  entry: CustomRuleConfig,
+  ptr: string,
+  issues: ConfigIssue[],
+): Rule | null {
+  const fail = (path: string, message: string) => {
+    issues.push({ level: "error", path: `${ptr}${path}`, message });
+    return null;
+  };
+  const regex = (path: string, src: string | undefined, flags = "") => {
+    if (src == null) return undefined;
+    try {
+      return new RegExp(src, flags);
+    } catch (e: any) {
+      fail(path, String(e?.message ?? e));
+      return null;
+    }
+  };
+
+  if (!ID_RE.test(entry.id))
+    return fail(
+      "/id",
+      `Invalid rule id "${entry.id}" (lowercase letters, digits and "-", optionally "namespace/rule")`,
+    );
+  const severity = parseSeverity(entry.severity) as Severity;
+  if ((entry.regex == null) === (entry.selector == null))
+    return fail(
+      "",
+      `Custom rule "${entry.id}" needs exactly one of regex or selector`,
+    );
+
+  let selector: Selector | undefined;
+  if (entry.selector != null) {
+    const m = SELECTOR_RE.exec(entry.selector.trim());
+    if (!m)
+      return fail(
+        "/selector",
+        `Invalid selector "${entry.selector}" (expected call:<callee>, new:<callee> or import:<module>)`,
+      );
+    const kind = m[1] as Selector["kind"];
+    selector = {
+      kind,
+      pattern: wildcard(m[2].trim(), kind === "import" ? ".*" : "[\\w$.]*"),
+    };
+  }
+  const pattern = regex("/regex", entry.regex, "g");
+  const mustContain = regex("/mustContain", entry.mustContain);
+  const mustNotContain = regex("/mustNotContain", entry.mustNotContain);
+  if (pattern === null || mustContain === null || mustNotContain === null)
+    return null;
+
+  const kinds =
+    entry.fileKind == null
+      ? []
+      : Array.isArray(entry.fileKind)
+        ? entry.fileKind
+        : [entry.fileKind];
+  const include = entry.files?.length ? ignore().add(entry.files) : null;
+  const exclude = entry.exclude?.length ? ignore().add(entry.exclude) : null;
+
+  return {
+    id: entry.id,
+    description: entry.description ?? entry.message,
+    stack: ALL_STACKS,
+    ...(entry.requires?.length ? { requires: entry.requires } : {}),
+    scope: "file",
+    docs: {
+      rationale: entry.description ?? entry.message,
+      defaultSeverity: severity,
+    },
+    async run(ctx) {
+      const out: Finding[] = [];
+      for (const abs of ctx.files) {
+        // repo-relative, also inside workspace packages
+        const rp = toPosix(path.relative(ctx.repoRoot, abs));
+        if (include && !include.ignores(rp)) continue;
+        if (exclude?.ignores(rp)) continue;
+
+        const code = await ctx.getSource(abs);
+        if (!code) continue;
+        if (kinds.length && !kinds.some((k) => isFileKind(k, rp, code)))
+          continue;
+        if (mustContain && !mustContain.test(code)) continue;
+        if (mustNotContain?.test(code)) continue;
+
+        let matches: Match[];
+        if (selector) {
+          if (!isParsableFile(abs)) continue;
+          // Unparsable files are reported once by the engine (parse-error).
+          const ast = await ctx.getAst(abs);
+          if (!ast) continue;
+          matches = selectorMatches(ast, selector);
+        } else {
+          matches = regexMatches(code, pattern!);
+        }
+
+        for (const m of matches) {
+          out.push({
+            ruleId: entry.id,
+            severity,
+            file: abs,
+            line: m.line,
+            col: m.col,
+            message: entry.message.replaceAll("{match}", m.text),
+            ...(entry.fixHint ? { fixHint: entry.fixHint } : {}),
+          });
+        }
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * Compile `customRules` entries (already schema-checked) into rules. Throws
+ * ConfigError listing every bad entry: invalid ids or regexes, a missing or
+ * doubled pattern, or an id that's taken by `knownIds` or another entry.
+ */
+export function compileCustomRules(
+  entries: CustomRuleConfig[],
+  knownIds: Iterable<string>,
+  file?: string | null,
+): Rule[] {
+  const issues: ConfigIssue[] = [];
+  const taken = new Set(knownIds);
+  const out: Rule[] = [];
+
+  entries.forEach((entry, i) => {
+    const ptr = `/customRules/${i}`;
+    if (taken.has(entry.id)) {
+      issues.push({
+        level: "error",
+        path: `${ptr}/id`,
+        message: `Rule id "${entry.id}" is already defined`,
+      });
+      return;
+    }
+    taken.add(entry.id);
+    const rule = compileOne(entry, ptr, issues);
+    if (rule) out.push(rule);
+  });
+
+  if (issues.length)
+    throw new ConfigError(
+      issues.map((i) => ({ ...i, file: file ?? undefined })),
+    );
+  return out;
+}
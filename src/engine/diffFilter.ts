@@ -0,0 +1,37 @@
+import path from "node:path";
+import type { Finding, Rule } from "./types.js";
+import type { ChangeSet } from "../scanner/changedFiles.js";
+import { PARSE_ERROR_RULE_ID } from "./runRules.js";
+
+/**
+ * --diff-lines: keep findings whose line was added or modified. Findings about
+ * a file as a whole (rules with diffScope "file", parse errors, findings
+ * without a line) are kept when any line of their file changed. Findings not
+ * tied to a changed file, e.g. a rule crash or config problem reported on the
+ * repo root or a workspace package's directory (`unitRoots`), are kept so tool
+ * problems never disappear.
+ */
+export function filterToChangedLines(
+  findings: Finding[],
+  changes: ChangeSet,
+  rules: Rule[],
+  rootDir: string,
+  unitRoots: string[] = [],
+): Finding[] {
+  const fileLevel = new Set([
+    PARSE_ERROR_RULE_ID,
+    ...rules.filter((r) => r.diffScope === "file").map((r) => r.id),
+  ]);
+
+  const roots = new Set([rootDir, ...unitRoots.map((d) => path.resolve(d))]);
+
+  return findings.filter((f) => {
+    const abs = path.resolve(rootDir, f.file);
+    if (roots.has(abs)) return true;
+    const lines = changes.get(abs);
+    if (!lines) return false;
+    if (lines === "all" || f.line == null || fileLevel.has(f.ruleId))
+      return true;
+    return lines.has(f.line);
+  });
+}
@@ -0,0 +1,131 @@
+import { readFile, writeFile } from "node:fs/promises";
+import type { Finding, Fix, TextEdit } from "./types.js";
+import type { SourceReader } from "./baseline.js";
+
+/**
+ * Autofix planning for `vibecheck fix`: findings carry a `fix` (text edits
+ * against the source as scanned); this groups them per file, drops fixes
+ * that conflict with one already taken, and computes the new contents.
+ *
+ * Conflicts: two edits conflict when their ranges overlap, or when an
+ * insertion lands strictly inside a replaced range. Insertions at the same
+ * offset don't conflict (they're applied in finding order), and an edit
+ * identical to one already taken is shared (e.g. several findings in one
+ * file that all insert the same import).
+ */
+
+export interface FixablePair {
+  finding: Finding;
+  fix: Fix;
+}
+
+export interface FileFixPlan {
+  file: string;
+  /** Source the edits were computed against. */
+  before: string;
+  after: string;
+  applied: FixablePair[];
+  skipped: (FixablePair & { reason: string })[];
+}
+
+type SeqEdit = TextEdit & { seq: number };
+
+function conflicts(a: TextEdit, b: TextEdit): boolean {
+  if (a.start === a.end) return b.start < a.start && a.start < b.end;
+  if (b.start === b.end) return a.start < b.start && b.start < a.end;
+  return a.start < b.end && b.start < a.end;
+}
+
+const sameEdit = (a: TextEdit, b: TextEdit) =>
+  a.start === b.start && a.end === b.end && a.text === b.text;
+
+/** Apply non-conflicting edits (insertions at one offset in `seq` order). */
+function applyEdits(code: string, edits: SeqEdit[]): string {
+  const sorted = [...edits].sort(
+    (a, b) =>
+      a.start - b.start ||
+      Number(a.start !== a.end) - Number(b.start !== b.end) ||
+      a.seq - b.seq,
+  );
+  let out = "";
+  let pos = 0;
+  for (const e of sorted) {
+    out += code.slice(pos, e.start) + e.text;
+    pos = e.end;
+  }
+  return out + code.slice(pos);
+}
+
+/** Plan the fixes of `findings` (those without one are ignored), per file. */
+export async function planFixes(
+  findings: Finding[],
+  getSource: SourceReader,
+): Promise<FileFixPlan[]> {
+  const byFile = new Map<string, FixablePair[]>();
+  for (const finding of findings) {
+    if (!finding.fix?.edits.length) continue;
+    const list = byFile.get(finding.file) ?? [];
+    list.push({ finding, fix: finding.fix });
+    byFile.set(finding.file, list);
+  }
+
+  const plans: FileFixPlan[] = [];
+  for (const [file, pairs] of byFile) {
+    const before = await getSource(file);
+    const taken: SeqEdit[] = [];
+    const plan: FileFixPlan = {
+      file,
+      before,
+      after: before,
+      applied: [],
+      skipped: [],
+    };
+
+    for (const pair of pairs) {
+      const edits = pair.fix.edits;
+      const invalid = edits.some(
+        (e) => e.start < 0 || e.end < e.start || e.end > before.length,
+      );
+      if (invalid) {
+        plan.skipped.push({ ...pair, reason: "edit outside the file" });
+        continue;
+      }
+      const fresh = edits.filter((e) => !taken.some((t) => sameEdit(t, e)));
+      const clash = fresh.some(
+        (e, i) =>
+          taken.some((t) => conflicts(e, t)) ||
+          fresh.some((o, j) => j !== i && conflicts(e, o)),
+      );
+      if (clash) {
+        const other = plan.applied.find((p) =>
+          p.fix.edits.some((t) => fresh.some((e) => conflicts(e, t))),
+        );
+        plan.skipped.push({
+          ...pair,
+          reason: other
+            ? `overlaps the fix for ${other.finding.ruleId}${other.finding.line != null ? ` at line ${other.finding.line}` : ""}`
+            : "its edits overlap each other",
+        });
+        continue;
+      }
+      for (const e of fresh) taken.push({ ...e, seq: taken.length });
+      plan.applied.push(pair);
+    }
+
+    plan.after = applyEdits(before, taken);
+    plans.push(plan);
+  }
+  return plans;
+}
+
+/**
+ * Write a planned file. Returns false (and writes nothing) when the file on
+ * disk no longer matches the source the fixes were computed against.
+ */
+export async function writeFixPlan(plan: FileFixPlan): Promise<boolean> {
+  const current = await readFile(plan.file, "utf8").catch(() => null);
+  if (current !== plan.before) return false;
+  if (plan.after !== plan.before)
+    await writeFile(plan.file, plan.after, "utf8");
+  return true;
+}
@@ -0,0 +1,36 @@
+import type { Finding, Severity } from "./types.js";
+import { relFile, stableFindingIds, type SourceReader } from "./baseline.js";
+
+/**
+ * `--format gitlab`: GitLab Code Quality report (artifacts:reports:codequality),
+ * shown in the merge request widget. Fingerprints are the shared stable ids
+ * from baseline.ts.
+ */
+
+const GITLAB_SEVERITY: Record<Severity, string> = {
+  blocker: "blocker",
+  high: "critical",
+  med: "major",
+  low: "minor",
+  info: "info",
+};
+
+export async function toGitlabCodeQuality(
+  findings: Finding[],
+  rootDir: string,
+  getSource: SourceReader,
+) {
+  const ids = await stableFindingIds(findings, rootDir, getSource);
+  return findings.map((f, i) => ({
+    type: "issue",
+    check_name: f.ruleId,
+    description: f.message,
+    ...(f.fixHint ? { content: { body: f.fixHint } } : {}),
+    fingerprint: ids[i],
+    severity: GITLAB_SEVERITY[f.severity],
+    location: {
+      path: relFile(rootDir, f.file),
+      lines: { begin: f.line ?? 1 },
+    },
+  }));
+}
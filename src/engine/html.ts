@@ -0,0 +1,216 @@
+import type { CheckerConfig, Finding, Rule, Severity } from "./types.js";
+import { SEVERITY_ORDER } from "./severity.js";
+import { suppressionNotes, type FilteredReport } from "./outputFilter.js";
+import { summarize } from "./report.js";
+import { suppressionMarkers } from "./ruleDocs.js";
+import { toPosix } from "../utils/path.js";
+
+/**
+ * `--format html`: one self-contained file (inline CSS/JS, no network) for
+ * reviewing a scan offline. Findings are rendered server-side, grouped by
+ * file with a source snippet; the inline script only filters/searches.
+ */
+
+export interface HtmlReportInput {
+  findings: Finding[];
+  rootDir: string;
+  stack: string;
+  config: CheckerConfig;
+  rules: Rule[];
+  report?: FilteredReport;
+  getSource: (abs: string) => Promise<string>;
+  /** Lines of context above/below the finding line (default 2). */
+  context?: number;
+}
+
+const SEVERITY_COLOR: Record<Severity, string> = {
+  blocker: "#b91c1c",
+  high: "#dc2626",
+  med: "#d97706",
+  low: "#2563eb",
+  info: "#6b7280",
+};
+
+function esc(s: unknown): string {
+  return String(s ?? "")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function relPath(rootDir: string, abs: string): string {
+  return toPosix(abs.startsWith(rootDir) ? abs.slice(rootDir.length + 1) : abs);
+}
+
+function snippet(code: string, line: number, context: number): string {
+  const lines = code.split(/\r?\n/);
+  const from = Math.max(1, line - context);
+  const to = Math.min(lines.length, line + context);
+  const rows: string[] = [];
+  for (let n = from; n <= to; n++) {
+    rows.push(
+      `<span class="ln${n === line ? " hit" : ""}"><span class="no">${n}</span>${esc(lines[n - 1])}</span>`,
+    );
+  }
+  return `<pre class="src">${rows.join("\n")}</pre>`;
+}
+
+// Collapsible Rule.docs block for the by-rule table.
+function ruleDocs(rule: Rule | undefined): string {
+  const docs = rule?.docs;
+  if (!rule || !docs) return "";
+  const code = (label: string, src?: string) =>
+    src ? `<div>${label}</div><pre class="doc">${esc(src)}</pre>` : "";
+  return `<details class="notes"><summary>About this rule</summary>
+<p>${esc(docs.rationale)}</p>
+${code("Flagged:", docs.bad)}
+${code("Passes:", docs.good)}
+<div>Suppress: ${suppressionMarkers(rule)
+    .map((m) => `<code>${esc(m)}</code>`)
+    .join(" or ")}</div>
+</details>`;
+}
+
+const STYLE = `
+*{box-sizing:border-box}body{margin:0;font:14px/1.45 system-ui,-apple-system,Segoe UI,sans-serif;color:#111827;background:#f9fafb}
+header{padding:16px 24px;background:#111827;color:#f9fafb}header h1{margin:0 0 4px;font-size:20px}header .meta{color:#9ca3af;font-size:13px}
+main{padding:16px 24px;max-width:1200px}
+.cards{display:flex;gap:12px;flex-wrap:wrap;margin-bottom:16px}.card{background:#fff;border:1px solid #e5e7eb;border-radius:8px;padding:10px 16px;min-width:110px}
+.card b{display:block;font-size:22px}.sev{display:inline-block;padding:1px 8px;border-radius:999px;color:#fff;font-size:12px;font-weight:600;text-transform:uppercase}
+table{border-collapse:collapse;background:#fff;width:100%;margin-bottom:16px}th,td{border:1px solid #e5e7eb;padding:6px 10px;text-align:left;vertical-align:top}th{background:#f3f4f6}
+.controls{position:sticky;top:0;background:#f9fafb;padding:8px 0;display:flex;gap:12px;flex-wrap:wrap;align-items:center;border-bottom:1px solid #e5e7eb;margin-bottom:12px}
+.controls input[type=search]{flex:1;min-width:220px;padding:6px 10px;border:1px solid #d1d5db;border-radius:6px}
+.file{background:#fff;border:1px solid #e5e7eb;border-radius:8px;margin-bottom:12px}.file>summary{padding:8px 12px;cursor:pointer;font-family:ui-monospace,Menlo,monospace}
+.finding{border-top:1px solid #f3f4f6;padding:8px 12px}.finding .loc{font-family:ui-monospace,Menlo,monospace;color:#6b7280}
+.fix{color:#065f46;margin-top:4px}.src{background:#0f172a;color:#e2e8f0;padding:8px 0;border-radius:6px;overflow:auto;font:12px/1.5 ui-monospace,Menlo,monospace}
+.src .ln{display:block;padding:0 12px}.src .hit{background:#7f1d1d}.src .no{display:inline-block;width:4em;color:#64748b;user-select:none}
+.notes{color:#6b7280}pre.doc{background:#f3f4f6;color:#111827;padding:6px 8px;overflow:auto}details.cfg pre{background:#fff;border:1px solid #e5e7eb;padding:12px;overflow:auto}.hidden{display:none}
+`;
+
+// Filtering only; everything is already in the DOM.
+const SCRIPT = `
+(function(){
+  var q=document.getElementById("q"),rule=document.getElementById("rule"),boxes=[].slice.call(document.querySelectorAll("input[data-sev]"));
+  function apply(){
+    var text=q.value.toLowerCase(),r=rule.value,sev={};
+    boxes.forEach(function(b){sev[b.getAttribute("data-sev")]=b.checked});
+    var shown=0;
+    [].slice.call(document.querySelectorAll(".file")).forEach(function(file){
+      var any=false;
+      [].slice.call(file.querySelectorAll(".finding")).forEach(function(f){
+        var ok=sev[f.getAttribute("data-sev")]&&(!r||f.getAttribute("data-rule")===r)&&(!text||f.textContent.toLowerCase().indexOf(text)>=0);
+        f.classList.toggle("hidden",!ok);if(ok){any=true;shown++}
+      });
+      file.classList.toggle("hidden",!any);
+    });
+    document.getElementById("shown").textContent=shown;
+  }
+  q.addEventListener("input",apply);rule.addEventListener("change",apply);boxes.forEach(function(b){b.addEventListener("change",apply)});
+})();
+`;
+
+export async function toHtml(input: HtmlReportInput): Promise<string> {
+  const { findings, rootDir, stack, config, rules, report } = input;
+  const context = input.context ?? 2;
+  const summary = summarize(findings);
+  const byId = new Map(rules.map((r) => [r.id, r]));
+
+  // --- by rule ---
+  const byRule = new Map<string, Record<Severity, number>>();
+  for (const f of findings) {
+    const row = byRule.get(f.ruleId) ?? {
+      blocker: 0,
+      high: 0,
+      med: 0,
+      low: 0,
+      info: 0,
+    };
+    row[f.severity]++;
+    byRule.set(f.ruleId, row);
+  }
+  const ruleRows = [...byRule.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([id, row]) =>
+        `<tr><td><code>${esc(id)}</code><div class="notes">${esc(byId.get(id)?.description ?? "")}</div>${ruleDocs(byId.get(id))}</td>${SEVERITY_ORDER.map((s) => `<td>${row[s] || ""}</td>`).join("")}</tr>`,
+    )
+    .join("\n");
+
+  // --- by file (most severe files first, then path) ---
+  const byFile = new Map<string, Finding[]>();
+  for (const f of findings) {
+    byFile.set(f.file, [...(byFile.get(f.file) ?? []), f]);
+  }
+  const rank = (fs: Finding[]) =>
+    Math.min(...fs.map((f) => SEVERITY_ORDER.indexOf(f.severity)));
+  const files = [...byFile.entries()].sort(
+    ([a, fa], [b, fb]) => rank(fa) - rank(fb) || a.localeCompare(b),
+  );
+
+  const fileBlocks: string[] = [];
+  for (const [file, list] of files) {
+    const code = await input.getSource(file).catch(() => "");
+    const items = [...list]
+      .sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+      .map((f) => {
+        const loc = f.line != null ? `${f.line}:${f.col ?? 0}` : "";
+        return `<div class="finding" data-sev="${f.severity}" data-rule="${esc(f.ruleId)}">
+<span class="sev" style="background:${SEVERITY_COLOR[f.severity]}">${f.severity}</span> <code>${esc(f.ruleId)}</code> <span class="loc">${esc(loc)}</span>
+<div>${esc(f.message)}</div>
+${f.fixHint ? `<div class="fix">Fix: ${esc(f.fixHint)}</div>` : ""}
+${code && f.line != null ? snippet(code, f.line, context) : ""}
+</div>`;
+      })
+      .join("\n");
+    fileBlocks.push(
+      `<details class="file" open><summary>${esc(relPath(rootDir, file))} (${list.length})</summary>\n${items}\n</details>`,
+    );
+  }
+
+  const notes = report ? suppressionNotes(report) : [];
+  const cfg = { ...config } as Record<string, unknown>;
+  delete cfg.__discoveredAuth;
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>vibecheck report: ${esc(rootDir)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<h1>vibecheck report</h1>
+<div class="meta">${esc(rootDir)} · stack: ${esc(stack)} · auth: ${esc(config.auth)} · ${findings.length} finding(s) · generated ${esc(new Date().toISOString())}</div>
+</header>
+<main>
+<section class="cards">
+${SEVERITY_ORDER.map((s) => `<div class="card"><span class="sev" style="background:${SEVERITY_COLOR[s]}">${s}</span><b>${summary[s]}</b></div>`).join("\n")}
+</section>
+${notes.length ? `<p class="notes">${notes.map(esc).join("<br>")}</p>` : ""}
+<h2>By rule</h2>
+<table>
+<tr><th>Rule</th>${SEVERITY_ORDER.map((s) => `<th>${s}</th>`).join("")}</tr>
+${ruleRows || `<tr><td colspan="6">No findings.</td></tr>`}
+</table>
+<h2>Findings</h2>
+<div class="controls">
+<input id="q" type="search" placeholder="Search message, file, rule…">
+${SEVERITY_ORDER.map((s) => `<label><input type="checkbox" data-sev="${s}" checked> ${s}</label>`).join("\n")}
+<select id="rule"><option value="">All rules</option>${[...byRule.keys()]
+    .sort()
+    .map((id) => `<option>${esc(id)}</option>`)
+    .join("")}</select>
+<span class="notes"><span id="shown">${findings.length}</span> shown</span>
+</div>
+${fileBlocks.join("\n")}
+<details class="cfg"><summary>Effective config</summary><pre>${esc(JSON.stringify(cfg, null, 2))}</pre></details>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
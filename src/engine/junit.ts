@@ -0,0 +1,63 @@
+import type { Finding } from "./types.js";
+import { relFile } from "./baseline.js";
+
+/**
+ * `--format junit`: JUnit XML for Jenkins and other CI test reporters.
+ * One testcase per rule that ran (passing when it found nothing) and one
+ * <failure> per finding.
+ */
+
+function xml(s: unknown): string {
+  return (
+    String(s ?? "")
+      .replaceAll("&", "&amp;")
+      .replaceAll("<", "&lt;")
+      .replaceAll(">", "&gt;")
+      .replaceAll('"', "&quot;")
+      .replaceAll("'", "&apos;")
+      // XML 1.0 can't carry most control characters
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  );
+}
+
+export function toJunit(
+  findings: Finding[],
+  rootDir: string,
+  ruleIds: string[],
+  timeMs = 0,
+): string {
+  const byRule = new Map<string, Finding[]>(ruleIds.map((id) => [id, []]));
+  for (const f of findings) {
+    byRule.set(f.ruleId, [...(byRule.get(f.ruleId) ?? []), f]);
+  }
+
+  const cases = [...byRule.entries()].map(([id, fs]) => {
+    const failures = fs.map((f) => {
+      const loc =
+        f.line != null
+          ? `${relFile(rootDir, f.file)}:${f.line}`
+          : relFile(rootDir, f.file);
+      const body = [
+        `${f.severity.toUpperCase()} ${loc}`,
+        f.message,
+        ...(f.fixHint ? [`Fix: ${f.fixHint}`] : []),
+      ].join("\n");
+      return `      <failure type="${xml(f.severity)}" message="${xml(`${loc}: ${f.message}`)}">${xml(body)}</failure>`;
+    });
+    return failures.length
+      ? `    <testcase classname="vibecheck" name="${xml(id)}">\n${failures.join("\n")}\n    </testcase>`
+      : `    <testcase classname="vibecheck" name="${xml(id)}"/>`;
+  });
+
+  const failed = [...byRule.values()].filter((fs) => fs.length).length;
+  const time = (timeMs / 1000).toFixed(3);
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="vibecheck" tests="${byRule.size}" failures="${failed}" errors="0" time="${time}">`,
+    `  <testsuite name="vibecheck" tests="${byRule.size}" failures="${failed}" errors="0" skipped="0" time="${time}">`,
+    ...cases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    ``,
+  ].join("\n");
+}
@@ -0,0 +1,177 @@
+import type { Finding, PackageSummary, Severity } from "./types.js";
+import { SEVERITY_ORDER } from "./severity.js";
+import { suppressionNotes, type FilteredReport } from "./outputFilter.js";
+import { summarize } from "./report.js";
+import { toPosix } from "../utils/path.js";
+import { ROOT_PACKAGE } from "../scanner/workspaces.js";
+
+/**
+ * `--format markdown`: a PR-comment body. Severity table, one collapsible
+ * <details> per rule, repo-relative links with #L anchors, and a new vs
+ * baselined split. Output never exceeds `maxBytes`: findings that don't fit
+ * are left out and counted per rule at the end.
+ */
+
+export interface MarkdownReportInput {
+  /** Findings to report (new ones, when a baseline is used). */
+  findings: Finding[];
+  /** Findings matched by the baseline; omit when no baseline is used. */
+  baselined?: Finding[];
+  rootDir: string;
+  stack: string;
+  report?: FilteredReport;
+  /** Workspace packages (monorepos): adds a per-package table. */
+  packages?: PackageSummary[];
+  /** Prefix for file links, e.g. https://github.com/org/repo/blob/<sha>/ (default: relative). */
+  linkBase?: string;
+  /** Hard limit on the UTF-8 size of the output. */
+  maxBytes?: number;
+}
+
+// GitHub rejects comment bodies over 65536 characters.
+export const DEFAULT_MARKDOWN_MAX_BYTES = 60_000;
+
+function relPath(rootDir: string, abs: string): string {
+  return toPosix(abs.startsWith(rootDir) ? abs.slice(rootDir.length + 1) : abs);
+}
+
+// Keep messages from opening HTML tags / breaking tables in the comment.
+function md(s: string): string {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll("|", "\\|")
+    .replace(/\s*\n\s*/g, " ");
+}
+
+function bytes(s: string): number {
+  return Buffer.byteLength(s, "utf8");
+}
+
+function groupByRule(findings: Finding[]): [string, Finding[]][] {
+  const byRule = new Map<string, Finding[]>();
+  for (const f of findings)
+    byRule.set(f.ruleId, [...(byRule.get(f.ruleId) ?? []), f]);
+  const rank = (fs: Finding[]) =>
+    Math.min(...fs.map((f) => SEVERITY_ORDER.indexOf(f.severity)));
+  return [...byRule.entries()].sort(
+    ([a, fa], [b, fb]) => rank(fa) - rank(fb) || a.localeCompare(b),
+  );
+}
+
+function severityCounts(findings: Finding[]): string {
+  const s = summarize(findings);
+  return SEVERITY_ORDER.filter((k) => s[k])
+    .map((k) => `${k}: ${s[k]}`)
+    .join(", ");
+}
+
+export function toMarkdown(input: MarkdownReportInput): string {
+  const { findings, baselined, rootDir, stack, report } = input;
+  const maxBytes = input.maxBytes ?? DEFAULT_MARKDOWN_MAX_BYTES;
+  const linkBase = input.linkBase ?? "";
+
+  const link = (f: Finding) => {
+    const rp = relPath(rootDir, f.file);
+    const label = f.line != null ? `${rp}:${f.line}` : rp;
+    const href = `${linkBase}${encodeURI(rp)}${f.line != null ? `#L${f.line}` : ""}`;
+    return `[${md(label)}](${href})`;
+  };
+
+  // --- header + summary (always included) ---
+  const newSummary = summarize(findings);
+  const oldSummary = baselined ? summarize(baselined) : null;
+  const head: string[] = [
+    "## vibecheck",
+    "",
+    findings.length
+      ? `**${findings.length} ${baselined ? "new " : ""}finding(s)**${baselined ? ` · ${baselined.length} baselined` : ""} · stack: ${md(stack)}`
+      : `**No ${baselined ? "new " : ""}findings**${baselined ? ` · ${baselined.length} baselined` : ""} · stack: ${md(stack)}`,
+    "",
+    oldSummary ? "| Severity | New | Baselined |" : "| Severity | Findings |",
+    oldSummary ? "| --- | ---: | ---: |" : "| --- | ---: |",
+    ...SEVERITY_ORDER.map((s: Severity) =>
+      oldSummary
+        ? `| ${s} | ${newSummary[s]} | ${oldSummary[s]} |`
+        : `| ${s} | ${newSummary[s]} |`,
+    ),
+    "",
+  ];
+  if (input.packages?.length) {
+    head.push(
+      "| Package | Stack | Files | Findings |",
+      "| --- | --- | ---: | --- |",
+      ...input.packages.map(
+        (p) =>
+          `| ${md(p.name)} (\`${md(p.path)}\`) | ${p.stack} | ${p.files} | ${severityCounts(findings.filter((f) => (f.package ?? ROOT_PACKAGE) === p.name)) || "none"} |`,
+      ),
+      "",
+    );
+  }
+
+  // --- tail: baselined per-rule counts + notes (always included) ---
+  const tail: string[] = [];
+  if (baselined?.length) {
+    tail.push(
+      "<details><summary>Baselined findings by rule</summary>",
+      "",
+      ...groupByRule(baselined).map(
+        ([id, fs]) => `- \`${id}\`: ${fs.length} (${severityCounts(fs)})`,
+      ),
+      "",
+      "</details>",
+      "",
+    );
+  }
+  for (const note of report ? suppressionNotes(report) : [])
+    tail.push(`_${md(note)}_`, "");
+
+  // --- body: one <details> per rule, filled until the budget runs out ---
+  const omitted = new Map<string, number>();
+  const truncationNote = (n: number) =>
+    `> **Truncated:** ${n} finding(s) not shown to stay under ${maxBytes} bytes`;
+  // Room for the truncation note (counts are appended below).
+  const reserve = 400;
+  let used = bytes(head.join("\n")) + bytes(tail.join("\n")) + reserve;
+  const body: string[] = [];
+
+  const rules = groupByRule(findings);
+  for (const [id, fs] of rules) {
+    const open = (shown: number) =>
+      `<details><summary><b>${id}</b> — ${fs.length} (${severityCounts(fs)})${shown < fs.length ? `, ${shown} shown` : ""}</summary>\n\n`;
+    const close = "\n</details>\n";
+    const block: string[] = [];
+    // sized with the longest summary variant
+    let size = bytes(open(0)) + bytes(close);
+    let shown = 0;
+
+    for (const f of fs) {
+      const item =
+        `- **${f.severity.toUpperCase()}** ${link(f)} — ${md(f.message)}` +
+        (f.fixHint ? `<br>_Fix:_ ${md(f.fixHint)}` : "");
+      if (used + size + bytes(item) + 1 > maxBytes) break;
+      block.push(item);
+      size += bytes(item) + 1;
+      shown++;
+    }
+
+    if (shown) {
+      body.push(open(shown) + block.join("\n") + close);
+      used += size;
+    }
+    if (shown < fs.length) omitted.set(id, fs.length - shown);
+  }
+
+  if (omitted.size) {
+    const n = [...omitted.values()].reduce((a, b) => a + b, 0);
+    let note = truncationNote(n);
+    const parts = [...omitted.entries()].map(([id, c]) => `\`${id}\`: ${c}`);
+    // List per-rule counts only while they fit in the reserved room.
+    const withCounts = `${note} (${parts.join(", ")}).`;
+    note = bytes(withCounts) <= reserve ? withCounts : `${note}.`;
+    body.push(note, "");
+  }
+
+  return [...head, ...body, ...tail].join("\n").trimEnd() + "\n";
+}
@@ -0,0 +1,81 @@
+import type { Finding, OutputConfig, Severity } from "./types.js";
+import { severityRank } from "./severity.js";
+
+/**
+ * Report-filtering stage between runRules and the formatters.
+ * Every formatter (console/json/sarif) renders the same filtered set,
+ * and reports what was hidden via `belowMinSeverity` / `capped`.
+ */
+export interface FilteredReport {
+  findings: Finding[];
+  /** Findings dropped for being below output.minSeverity. */
+  belowMinSeverity: number;
+  /** ruleId -> number of findings hidden by output.maxFindingsPerRule. */
+  capped: Record<string, number>;
+  minSeverity?: Severity;
+  maxFindingsPerRule?: number;
+}
+
+export function filterFindings(
+  findings: Finding[],
+  output: OutputConfig | undefined,
+): FilteredReport {
+  const minSeverity = output?.minSeverity;
+  const max = output?.maxFindingsPerRule;
+
+  let kept = findings;
+  let belowMinSeverity = 0;
+
+  if (minSeverity) {
+    const limit = severityRank(minSeverity);
+    kept = kept.filter((f) => severityRank(f.severity) <= limit);
+    belowMinSeverity = findings.length - kept.length;
+  }
+
+  const capped: Record<string, number> = {};
+
+  if (max != null && max >= 0) {
+    // Keep the most severe findings of each rule; stable within a severity.
+    const byRule = new Map<string, Finding[]>();
+    for (const f of kept) {
+      const arr = byRule.get(f.ruleId) ?? [];
+      arr.push(f);
+      byRule.set(f.ruleId, arr);
+    }
+
+    const allowed = new Set<Finding>();
+    for (const [ruleId, arr] of byRule) {
+      const sorted = [...arr].sort(
+        (a, b) => severityRank(a.severity) - severityRank(b.severity),
+      );
+      for (const f of sorted.slice(0, max)) allowed.add(f);
+      if (arr.length > max) capped[ruleId] = arr.length - max;
+    }
+
+    kept = kept.filter((f) => allowed.has(f));
+  }
+
+  return {
+    findings: kept,
+    belowMinSeverity,
+    capped,
+    minSeverity,
+    maxFindingsPerRule: max,
+  };
+}
+
+/** Human-readable notes for hidden findings (shared by console + SARIF). */
+export function suppressionNotes(r: FilteredReport): string[] {
+  const notes: string[] = [];
+  for (const [ruleId, n] of Object.entries(r.capped)) {
+    notes.push(
+      `${n} more [${ruleId}] finding(s) suppressed (output.maxFindingsPerRule=${r.maxFindingsPerRule}).`,
+    );
+  }
+  if (r.belowMinSeverity) {
+    notes.push(
+      `${r.belowMinSeverity} finding(s) below ${r.minSeverity} hidden (output.minSeverity).`,
+    );
+  }
+  return notes;
+}
@@ -0,0 +1,161 @@
+import path from "node:path";
+import ignoreModule, { type Ignore } from "ignore";
+import type { Finding, RuleOverride } from "./types.js";
+import { parseSeverity } from "./severity.js";
+import { toPosix } from "../utils/path.js";
+
+const ignore: () => Ignore =
+  (ignoreModule as any).default ?? (ignoreModule as any);
+
+/**
+ * ruleOverrides (vibecheck.json):
+ * {
+ *   "ruleOverrides": {
+ *     "next-async-waterfall": { "severity": "info", "exclude": ["app/api/**"] },
+ *     "next-client-env-leak": { "severity": "off" },
+ *     "next-api-auth-guard": "low"
+ *   }
+ * }
+ *
+ * Globs use .gitignore semantics and are matched against repo-relative paths.
+ */
+
+/** Normalize a raw override entry (object or bare severity string). */
+export function normalizeOverride(raw: unknown): RuleOverride {
+  if (typeof raw === "string") {
+    if (raw.trim().toLowerCase() === "off") return { severity: "off" };
+    const sev = parseSeverity(raw);
+    return sev ? { severity: sev } : {};
+  }
+  if (!raw || typeof raw !== "object") return {};
+
+  const r = raw as Record<string, unknown>;
+  const out: RuleOverride = {};
+
+  if (typeof r.severity === "string") {
+    if (r.severity.trim().toLowerCase() === "off") out.severity = "off";
+    else {
+      const sev = parseSeverity(r.severity);
+      if (sev) out.severity = sev;
+    }
+  }
+  if (Array.isArray(r.include)) out.include = r.include.map(String);
+  if (Array.isArray(r.exclude)) out.exclude = r.exclude.map(String);
+  return out;
+}
+
+export function normalizeOverrides(
+  raw: unknown,
+): Record<string, RuleOverride> {
+  const out: Record<string, RuleOverride> = {};
+  if (!raw || typeof raw !== "object") return out;
+  for (const [id, v] of Object.entries(raw as Record<string, unknown>)) {
+    out[id] = normalizeOverride(v);
+  }
+  return out;
+}
+
+/** Later layers win per key; include/exclude are replaced, not concatenated. */
+export function mergeOverrides(
+  ...layers: (Record<string, RuleOverride> | undefined)[]
+): Record<string, RuleOverride> {
+  const out: Record<string, RuleOverride> = {};
+  for (const layer of layers) {
+    for (const [id, o] of Object.entries(layer ?? {})) {
+      out[id] = { ...out[id], ...o };
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse a CLI `--rule` value: `<rule-id>=<severity|off>`.
+ * Throws on malformed input so commander surfaces it to the user.
+ */
+export function parseRuleFlag(spec: string): [string, RuleOverride] {
+  const eq = spec.lastIndexOf("=");
+  const id = eq > 0 ? spec.slice(0, eq).trim() : "";
+  const value = eq > 0 ? spec.slice(eq + 1).trim() : "";
+  if (!id || !value) {
+    throw new Error(
+      `Invalid --rule "${spec}" (expected <rule-id>=<severity|off>)`,
+    );
+  }
+  const o = normalizeOverride(value);
+  if (!o.severity) {
+    throw new Error(
+      `Invalid --rule "${spec}": unknown severity "${value}" (blocker|high|med|low|info|off)`,
+    );
+  }
+  return [id, o];
+}
+
+export function isRuleDisabled(
+  overrides: Record<string, RuleOverride> | undefined,
+  ruleId: string,
+): boolean {
+  return overrides?.[ruleId]?.severity === "off";
+}
+
+type CompiledOverride = {
+  severity?: RuleOverride["severity"];
+  include?: Ignore;
+  exclude?: Ignore;
+};
+
+function compile(o: RuleOverride): CompiledOverride {
+  return {
+    severity: o.severity,
+    include: o.include?.length ? ignore().add(o.include) : undefined,
+    exclude: o.exclude?.length ? ignore().add(o.exclude) : undefined,
+  };
+}
+
+/** Repo-relative posix path, or null when the finding is not inside rootDir. */
+function relFor(rootDir: string, file: string): string | null {
+  if (!file.startsWith(rootDir + path.sep) && !file.startsWith(rootDir + "/"))
+    return null;
+  return toPosix(file.slice(rootDir.length + 1)) || null;
+}
+
+/**
+ * Apply per-rule overrides to findings: drop disabled rules, filter by
+ * include/exclude globs, then remap severity.
+ */
+export function applyRuleOverrides(
+  findings: Finding[],
+  overrides: Record<string, RuleOverride> | undefined,
+  rootDir: string,
+): Finding[] {
+  if (!overrides || !Object.keys(overrides).length) return findings;
+
+  const compiled = new Map<string, CompiledOverride>();
+  const out: Finding[] = [];
+
+  for (const f of findings) {
+    const raw = overrides[f.ruleId];
+    if (!raw) {
+      out.push(f);
+      continue;
+    }
+
+    let c = compiled.get(f.ruleId);
+    if (!c) {
+      c = compile(raw);
+      compiled.set(f.ruleId, c);
+    }
+
+    if (c.severity === "off") continue;
+
+    const rp = relFor(rootDir, f.file);
+    // Findings without a repo-relative location (e.g. rule crashes) skip glob filters.
+    if (rp) {
+      if (c.include && !c.include.ignores(rp)) continue;
+      if (c.exclude && c.exclude.ignores(rp)) continue;
+    }
+
+    out.push(c.severity ? { ...f, severity: c.severity } : f);
+  }
+
+  return out;
+}
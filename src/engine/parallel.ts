@@ -0,0 +1,108 @@
+import os from "node:os";
+import { Worker } from "node:worker_threads";
+import type { Finding, Rule, RuleContext } from "./types.js";
+import type { ParseIssue } from "./sourceCache.js";
+import type { WorkerInput, WorkerOutput } from "./ruleWorker.js";
+
+// Below this many files, worker startup costs more than it saves.
+const MIN_FILES_FOR_WORKERS = 200;
+
+/** Default worker count: leave one core for the main thread, cap at 4. */
+export function defaultJobs(): number {
+  const cpus =
+    typeof os.availableParallelism === "function"
+      ? os.availableParallelism()
+      : os.cpus().length;
+  return Math.max(1, Math.min(4, cpus - 1));
+}
+
+export function shouldUseWorkers(fileCount: number, jobs: number): boolean {
+  return jobs > 1 && fileCount >= MIN_FILES_FOR_WORKERS;
+}
+
+// Contiguous shards keep per-rule output in ctx.files order when concatenated.
+function shard<T>(items: T[], n: number): T[][] {
+  const size = Math.ceil(items.length / n);
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size)
+    out.push(items.slice(i, i + size));
+  return out;
+}
+
+// Under tsx (dev) this module is .ts, so the worker is too and needs the tsx
+// loader registered in its own thread.
+const IS_TS = import.meta.url.endsWith(".ts");
+const WORKER_URL = new URL(
+  IS_TS ? "./ruleWorker.ts" : "./ruleWorker.js",
+  import.meta.url,
+);
+
+function runWorker(input: WorkerInput): Promise<WorkerOutput> {
+  return new Promise((resolve, reject) => {
+    const w = IS_TS
+      ? new Worker(
+          `import(${JSON.stringify(import.meta.resolve("tsx/esm/api"))})` +
+            `.then((m) => { m.register(); return import(${JSON.stringify(WORKER_URL.href)}); })`,
+          { eval: true, workerData: input },
+        )
+      : new Worker(WORKER_URL, { workerData: input });
+    w.once("message", (m: WorkerOutput) => resolve(m));
+    w.once("error", reject);
+    w.once("exit", (code) => {
+      if (code !== 0) reject(new Error(`rule worker exited with code ${code}`));
+    });
+  });
+}
+
+export type ShardedResult = {
+  byRule: Map<
+    string,
+    { findings: Finding[]; ms: number; files: number; crashed: boolean }
+  >;
+  parseIssues: ParseIssue[];
+};
+
+/**
+ * Run file-local rules (Rule.parallel) across worker threads, one file shard
+ * per worker. Throws if any worker fails; callers fall back to in-process.
+ */
+export async function runShardedInWorkers(
+  ctx: RuleContext,
+  rules: Rule[],
+  jobs: number,
+): Promise<ShardedResult> {
+  const shards = shard(ctx.files, jobs);
+  const outputs = await Promise.all(
+    shards.map((files) =>
+      runWorker({
+        rootDir: ctx.rootDir,
+        repoRoot: ctx.repoRoot,
+        files,
+        config: ctx.config,
+        stack: ctx.repo.stack,
+        capabilities: ctx.repo.capabilities,
+        ruleIds: rules.map((r) => r.id),
+      }),
+    ),
+  );
+
+  const byRule: ShardedResult["byRule"] = new Map();
+  for (const rule of rules) {
+    byRule.set(rule.id, { findings: [], ms: 0, files: 0, crashed: false });
+  }
+  const parseIssues: ParseIssue[] = [];
+
+  // outputs are in shard order, so findings stay in file order per rule
+  for (const o of outputs) {
+    for (const r of o.results) {
+      const agg = byRule.get(r.ruleId)!;
+      agg.findings.push(...r.findings);
+      agg.ms = Math.max(agg.ms, r.ms);
+      agg.files += r.files.length;
+      agg.crashed ||= r.crashed;
+    }
+    parseIssues.push(...o.parseIssues);
+  }
+
+  return { byRule, parseIssues };
+}
@@ -0,0 +1,181 @@
+import path from "node:path";
+import { createRequire } from "node:module";
+import { pathToFileURL } from "node:url";
+import type { Capability, Rule } from "./types.js";
+import { ConfigError } from "./configSchema.js";
+import { ALL_RULES } from "../rules/index.js";
+import { CAPABILITIES } from "../scanner/capabilities.js";
+
+/**
+ * Third-party rule plugins (`plugins` in vibecheck.json).
+ *
+ * A plugin is an npm package or local module whose default export is:
+ *
+ *   export default {
+ *     apiVersion: 1,             // PLUGIN_API_VERSION it was written against
+ *     name: "acme",              // namespace: every rule id is "acme/<rule>"
+ *     version: "1.4.0",          // optional; busts cached findings on upgrade
+ *     rules: [noRawFetchRule],   // Rule[], same contract as built-in rules
+ *   };
+ *
+ * Specifiers: "./tools/vibecheck-acme.mjs" (relative to the config file that
+ * lists it) or "@acme/vibecheck-plugin" (resolved from the repo root).
+ */
+
+/** Bump on breaking changes to Rule / RuleContext as seen by plugins. */
+export const PLUGIN_API_VERSION = 1;
+
+export interface VibecheckPlugin {
+  apiVersion: number;
+  name: string;
+  version?: string;
+  rules: Rule[];
+}
+
+export interface LoadedPlugin {
+  name: string;
+  version?: string;
+  /** Specifier as listed in the config. */
+  spec: string;
+  /** Resolved module path. */
+  path: string;
+  rules: Rule[];
+}
+
+/** Identity helper so plugin modules get type checking. */
+export function definePlugin(plugin: VibecheckPlugin): VibecheckPlugin {
+  return plugin;
+}
+
+const NAME_RE = /^[a-z0-9][a-z0-9-]*$/;
+const RULE_ID_RE = /^[a-z0-9][a-z0-9-]*\/[a-z0-9][a-z0-9-]*$/;
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function pluginError(
+  index: number,
+  message: string,
+  file?: string | null,
+): ConfigError {
+  return new ConfigError([
+    {
+      level: "error",
+      path: `/plugins/${index}`,
+      file: file ?? undefined,
+      message,
+    },
+  ]);
+}
+
+function resolvePlugin(spec: string, rootDir: string): string {
+  if (spec.startsWith(".") || path.isAbsolute(spec))
+    return path.resolve(rootDir, spec);
+  return createRequire(path.join(rootDir, "package.json")).resolve(spec);
+}
+
+// Checks the exported object against the plugin contract; returns the problem, if any.
+function checkPlugin(v: unknown): string | null {
+  if (!isPlainObject(v))
+    return "must export a plugin object ({ apiVersion, name, rules })";
+  if (typeof v.apiVersion !== "number")
+    return `does not declare apiVersion (this vibecheck supports plugin API v${PLUGIN_API_VERSION})`;
+  if (v.apiVersion !== PLUGIN_API_VERSION)
+    return `targets plugin API v${v.apiVersion}; this vibecheck supports v${PLUGIN_API_VERSION}`;
+  if (typeof v.name !== "string" || !NAME_RE.test(v.name))
+    return `has an invalid name ${JSON.stringify(v.name)} (lowercase letters, digits and "-")`;
+  if (!Array.isArray(v.rules)) return "has no rules array";
+
+  for (const rule of v.rules as unknown[]) {
+    if (!isPlainObject(rule) || typeof rule.id !== "string")
+      return "exports a rule without an id";
+    if (!RULE_ID_RE.test(rule.id) || !rule.id.startsWith(`${v.name}/`))
+      return `rule "${rule.id}" must be namespaced as "${v.name}/<rule-id>"`;
+    if (typeof rule.run !== "function")
+      return `rule "${rule.id}" has no run() function`;
+    if (!Array.isArray(rule.stack))
+      return `rule "${rule.id}" has no stack list`;
+    if (
+      rule.requires !== undefined &&
+      (!Array.isArray(rule.requires) ||
+        rule.requires.some((c) => !CAPABILITIES.includes(c as Capability)))
+    )
+      return `rule "${rule.id}" has an invalid requires list (capabilities: ${CAPABILITIES.join(", ")})`;
+  }
+  return null;
+}
+
+/**
+ * Load, validate and namespace-check the configured plugins, in config
+ * order. Throws ConfigError (path "/plugins/<i>") on the first plugin that
+ * can't be resolved, fails to import, or breaks the contract.
+ */
+export async function loadPlugins(
+  specs: string[],
+  rootDir: string,
+  configFile?: string | null,
+): Promise<LoadedPlugin[]> {
+  const out: LoadedPlugin[] = [];
+  const owner = new Map<string, string>(
+    ALL_RULES.map((r) => [r.id, "built-in rules"]),
+  );
+
+  for (const [i, spec] of specs.entries()) {
+    let resolved: string;
+    try {
+      resolved = resolvePlugin(spec, rootDir);
+    } catch {
+      throw pluginError(
+        i,
+        `Cannot resolve plugin "${spec}" (is it installed?)`,
+        configFile,
+      );
+    }
+
+    let mod: unknown;
+    try {
+      const m = await import(pathToFileURL(resolved).href);
+      mod = m?.default ?? m;
+    } catch (e: any) {
+      throw pluginError(
+        i,
+        `Plugin "${spec}" failed to load${resolved !== spec ? ` (${resolved})` : ""}: ${e?.message ?? e}`,
+        configFile,
+      );
+    }
+
+    const problem = checkPlugin(mod);
+    if (problem)
+      throw pluginError(i, `Plugin "${spec}" ${problem}`, configFile);
+    const plugin = mod as VibecheckPlugin;
+
+    for (const rule of plugin.rules) {
+      const prev = owner.get(rule.id);
+      if (prev) {
+        throw pluginError(
+          i,
+          `Plugin "${spec}": rule id "${rule.id}" is already defined by ${prev}`,
+          configFile,
+        );
+      }
+      owner.set(rule.id, `plugin "${spec}"`);
+    }
+
+    out.push({
+      name: plugin.name,
+      version: plugin.version,
+      spec,
+      path: resolved,
+      rules: plugin.rules.map((r) => ({
+        ...r,
+        plugin: { name: plugin.name, version: plugin.version },
+      })),
+    });
+  }
+  return out;
+}
+
+export function pluginRules(plugins: LoadedPlugin[]): Rule[] {
+  return plugins.flatMap((p) => p.rules);
+}
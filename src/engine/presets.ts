@@ -0,0 +1,30 @@
+/**
+ * Built-in config presets, usable via `"extends": ["vibecheck:<name>"]`.
+ *
+ * Presets only choose rule severities. Rules that emit mixed severities
+ * (e.g. prisma-missing-tenant-filter: HIGH for client components, INFO for the
+ * tenant heuristic) are left alone, since an override remaps every finding.
+ */
+export const PRESETS: Record<string, Record<string, unknown>> = {
+  recommended: {
+    ruleOverrides: {
+      "next-async-waterfall": "info",
+      "next-heavy-client-imports": "info",
+      "next-client-env-leak": "low",
+      "vite-client-env-leak": "low",
+    },
+  },
+
+  strict: {
+    ruleOverrides: {
+      "next-async-waterfall": "low",
+      "next-heavy-client-imports": "low",
+      "next-client-env-leak": "high",
+      "vite-client-env-leak": "high",
+      "next-server-only-import-in-client": "high",
+      "next-middleware-matcher-coverage": "high",
+    },
+  },
+};
+
+export const PRESET_PREFIX = "vibecheck:";
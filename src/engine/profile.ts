@@ -0,0 +1,56 @@
+import type { RuleContext } from "./types.js";
+
+/** Per-rule timing for `--profile`. */
+export interface RuleProfile {
+  ruleId: string;
+  /** Wall time; rules run concurrently, so times overlap. */
+  ms: number;
+  /** Distinct files the rule read via getSource/getAst. */
+  files: number;
+  findings: number;
+  /** "main" (in-process) or "workers:<n>" (file-sharded in n worker threads). */
+  mode: string;
+  /** Workspace package the run was for. */
+  package?: string;
+}
+
+/** Wrap a context so reads are counted per rule (the cache stays shared). */
+export function instrumentContext(ctx: RuleContext): {
+  ctx: RuleContext;
+  visited: Set<string>;
+} {
+  const visited = new Set<string>();
+  return {
+    visited,
+    ctx: {
+      ...ctx,
+      getSource: (p) => {
+        visited.add(p);
+        return ctx.getSource(p);
+      },
+      getAst: (p) => {
+        visited.add(p);
+        return ctx.getAst(p);
+      },
+    },
+  };
+}
+
+export function formatProfile(rows: RuleProfile[], totalMs: number): string[] {
+  const sorted = [...rows].sort((a, b) => b.ms - a.ms);
+  const label = (r: RuleProfile) =>
+    r.package ? `${r.ruleId} (${r.package})` : r.ruleId;
+  const w = Math.max(4, ...sorted.map((r) => label(r).length));
+  const lines = [
+    `${"rule".padEnd(w)}  ${"time".padStart(9)}  ${"files".padStart(6)}  ${"findings".padStart(8)}  mode`,
+  ];
+  for (const r of sorted) {
+    lines.push(
+      `${label(r).padEnd(w)}  ${`${r.ms.toFixed(1)}ms`.padStart(9)}  ${String(r.files).padStart(6)}  ${String(r.findings).padStart(8)}  ${r.mode}`,
+    );
+  }
+  lines.push(
+    `total: ${totalMs.toFixed(1)}ms (rules run concurrently; per-rule times overlap)`,
+  );
+  return lines;
+}
@@ -1,7 +1,11 @@
 import chalk from "chalk";
-import type { Finding, Severity } from "./types.js";
-
-const ORDER: Severity[] = ["blocker", "high", "med", "low", "info"];
+import path from "node:path";
+import type { Finding, PackageSummary, Severity } from "./types.js";
+import { SEVERITY_ORDER as ORDER } from "./severity.js";
+import { suppressionNotes, type FilteredReport } from "./outputFilter.js";
+import type { FixtureResult } from "../testRules.js";
+import { toPosix } from "../utils/path.js";
+import { ROOT_PACKAGE } from "../scanner/workspaces.js";
 const COLOR: Record<Severity, (s: string) => string> = {
   blocker: chalk.redBright,
   high: chalk.red,
@@ -32,6 +36,74 @@ export function printConsole(findings: Finding[]) {
   }
 }
 
+/** Workspace scans: printConsole() per package, under a header line. */
+export function printConsoleByPackage(
+  findings: Finding[],
+  packages: PackageSummary[],
+) {
+  for (const p of packages) {
+    const own = findings.filter((f) => (f.package ?? ROOT_PACKAGE) === p.name);
+    if (!own.length) continue;
+    console.log(chalk.bold(`== ${p.name} (${p.path}, ${p.stack}) ==`));
+    console.log();
+    printConsole(own);
+  }
+}
+
+/** Watch mode: what a re-scan added and resolved, one line each. */
+export function printFindingDiff(added: Finding[], resolved: Finding[]) {
+  const line = (f: Finding) => {
+    const loc = f.line != null ? `${f.file}:${f.line}:${f.col ?? 0}` : f.file;
+    return `${f.severity.toUpperCase()} [${f.ruleId}] ${loc} ${f.message}`;
+  };
+  for (const f of added) console.log(chalk.red(`+ ${line(f)}`));
+  for (const f of resolved) console.log(chalk.green(`- ${line(f)}`));
+}
+
+/** Print a unified diff (utils/diff.ts) with added/removed lines colored. */
+export function printUnifiedDiff(diff: string) {
+  for (const l of diff.split("\n")) {
+    if (l.startsWith("+++") || l.startsWith("---")) console.log(chalk.bold(l));
+    else if (l.startsWith("@@")) console.log(chalk.cyan(l));
+    else if (l.startsWith("+")) console.log(chalk.green(l));
+    else if (l.startsWith("-")) console.log(chalk.red(l));
+    else console.log(l);
+  }
+}
+
+/** `vibecheck test-rules`: PASS/FAIL per fixture, then what didn't match. */
+export function printRuleTests(results: FixtureResult[]) {
+  for (const r of results) {
+    const rel = (file: string) => toPosix(path.relative(r.dir, file)) || ".";
+    if (r.passed) {
+      console.log(`${chalk.green("PASS")} ${r.name} (${r.expected} expected)`);
+      continue;
+    }
+    console.log(`${chalk.red("FAIL")} ${r.name}`);
+    if (r.error) console.log(`  ${r.error}`);
+    for (const e of r.missing) {
+      const loc = e.line != null ? `${rel(e.file)}:${e.line}` : rel(e.file);
+      const sev = e.severity ? ` ${e.severity.toUpperCase()}` : "";
+      console.log(
+        chalk.red(`  - missing    ${loc} [${e.ruleId}]${sev}`) +
+          chalk.gray(` (expect at line ${e.at})`),
+      );
+    }
+    for (const f of r.unexpected) {
+      const loc = f.line != null ? `${rel(f.file)}:${f.line}` : rel(f.file);
+      console.log(
+        chalk.yellow(
+          `  + unexpected ${loc} [${f.ruleId}] ${f.severity.toUpperCase()}`,
+        ) + ` ${f.message}`,
+      );
+    }
+  }
+}
+
+export function printSuppressed(report: FilteredReport) {
+  for (const note of suppressionNotes(report)) console.log(chalk.gray(note));
+}
+
 export function exitCode(findings: Finding[], strict: boolean): number {
   if (!strict) return 0;
   const s = summarize(findings);
@@ -0,0 +1,137 @@
+import type {
+  Capability,
+  CheckerConfig,
+  Rule,
+  Severity,
+  StackName,
+} from "./types.js";
+import { isRuleDisabled } from "./overrides.js";
+import { ruleApplies } from "../rules/index.js";
+
+/**
+ * Rule catalog helpers: `vibecheck rules`, `vibecheck explain` and the help
+ * text in SARIF/HTML reports, all built from Rule.description + Rule.docs.
+ */
+
+export interface RuleStatus {
+  id: string;
+  description: string;
+  stacks: StackName[];
+  /** Capabilities the rule needs (any of), if it declares them. */
+  requires?: Capability[];
+  defaultSeverity?: Severity;
+  /** The rule runs for the repo's capabilities (or stack). */
+  applies: boolean;
+  /** Applies and isn't turned off in ruleOverrides. */
+  enabled: boolean;
+  /** Severity set in ruleOverrides / --rule, if any. */
+  override?: Severity | "off";
+  /** Plugin the rule comes from (built-in rules have none). */
+  plugin?: string;
+}
+
+export function ruleStatus(
+  rule: Rule,
+  config: CheckerConfig,
+  repo: { stack: StackName; capabilities?: Capability[] },
+): RuleStatus {
+  const applies = ruleApplies(rule, repo);
+  return {
+    id: rule.id,
+    description: rule.description,
+    stacks: rule.stack.filter((s) => s !== "auto"),
+    ...(rule.requires?.length ? { requires: rule.requires } : {}),
+    defaultSeverity: rule.docs?.defaultSeverity,
+    applies,
+    enabled: applies && !isRuleDisabled(config.ruleOverrides, rule.id),
+    override: config.ruleOverrides[rule.id]?.severity,
+    plugin: rule.plugin?.name,
+  };
+}
+
+export function suppressionMarkers(rule: Rule): string[] {
+  return [
+    `// vibecheck-disable-next-line ${rule.id} -- <reason>`,
+    ...(rule.docs?.suppression ? [rule.docs.suppression] : []),
+  ];
+}
+
+/** Markdown help for a rule; `hints` are fix hints seen on its findings. */
+export function ruleHelpMarkdown(rule: Rule, hints: string[] = []): string {
+  const docs = rule.docs;
+  const out = [rule.description];
+  if (docs) out.push("", docs.rationale);
+  if (docs?.bad) out.push("", "**Flagged**", "", "```", docs.bad, "```");
+  if (docs?.good) out.push("", "**Passes**", "", "```", docs.good, "```");
+  if (hints.length)
+    out.push("", "**How to fix**", "", ...hints.map((h) => `- ${h}`));
+  if (docs?.configKeys?.length)
+    out.push(
+      "",
+      `**Config:** ${docs.configKeys.map((k) => `\`${k}\``).join(", ")}`,
+    );
+  out.push(
+    "",
+    `**Suppress:** ${suppressionMarkers(rule)
+      .map((m) => `\`${m}\``)
+      .join(" or ")}`,
+  );
+  return out.join("\n");
+}
+
+const indent = (code: string) =>
+  code.split("\n").map((l) => (l ? `    ${l}` : l));
+
+/** `vibecheck explain <rule-id>` output. */
+export function formatRuleDoc(rule: Rule): string[] {
+  const docs = rule.docs;
+  const out = [
+    rule.id,
+    `  ${rule.description}`,
+    "",
+    rule.requires?.length
+      ? `Requires:         ${rule.requires.join(" or ")}`
+      : `Stacks:           ${rule.stack.filter((s) => s !== "auto").join(", ")}`,
+    `Default severity: ${docs?.defaultSeverity ?? "(not documented)"}`,
+  ];
+  if (rule.plugin) {
+    const v = rule.plugin.version ? ` ${rule.plugin.version}` : "";
+    out.push(`Plugin:           ${rule.plugin.name}${v}`);
+  }
+  if (docs) {
+    out.push("", "Why:", `  ${docs.rationale}`);
+    if (docs.bad) out.push("", "Flagged:", ...indent(docs.bad));
+    if (docs.good) out.push("", "Passes:", ...indent(docs.good));
+    if (docs.configKeys?.length)
+      out.push("", `Config keys: ${docs.configKeys.join(", ")}`);
+  }
+  out.push("", "Suppress:", ...suppressionMarkers(rule).map((m) => `  ${m}`));
+  return out;
+}
+
+export function statusLabel(s: RuleStatus): string {
+  if (!s.applies) return s.requires ? "not detected" : "not for this stack";
+  return s.enabled ? "enabled" : "off (ruleOverrides)";
+}
+
+/** `vibecheck rules` table. */
+export function formatRuleList(statuses: RuleStatus[]): string[] {
+  const w = Math.max(4, ...statuses.map((s) => s.id.length));
+  const severity = (s: RuleStatus) =>
+    s.override && s.override !== "off"
+      ? `${s.override}*`
+      : (s.defaultSeverity ?? "-");
+  // required capabilities when the rule declares them, else its stacks
+  const target = (s: RuleStatus) => (s.requires ?? s.stacks).join(",");
+  const tw = Math.max(24, ...statuses.map((s) => target(s).length));
+  const out = [
+    `${"rule".padEnd(w)}  ${"severity".padEnd(8)}  ${"applies to".padEnd(tw)}  status`,
+    ...statuses.map(
+      (s) =>
+        `${s.id.padEnd(w)}  ${severity(s).padEnd(8)}  ${target(s).padEnd(tw)}  ${statusLabel(s)}`,
+    ),
+  ];
+  if (statuses.some((s) => s.override && s.override !== "off"))
+    out.push("", "* severity set in ruleOverrides / --rule");
+  return out;
+}
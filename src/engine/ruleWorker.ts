@@ -0,0 +1,77 @@
+// Worker-thread entry for file-sharded rules (see engine/parallel.ts).
+// Runs the requested rules on one shard of files with its own source cache.
+import { parentPort, workerData } from "node:worker_threads";
+import type {
+  Capability,
+  CheckerConfig,
+  Finding,
+  StackName,
+} from "./types.js";
+import type { ParseIssue } from "./sourceCache.js";
+import { createRuleContext } from "./context.js";
+import { instrumentContext } from "./profile.js";
+import { ALL_RULES } from "../rules/index.js";
+import { crashFinding } from "./runRules.js";
+import { loadPlugins, pluginRules } from "./plugins.js";
+
+export type WorkerInput = {
+  rootDir: string;
+  repoRoot?: string;
+  files: string[];
+  config: CheckerConfig;
+  stack: StackName;
+  capabilities?: Capability[];
+  ruleIds: string[];
+};
+
+export type WorkerOutput = {
+  results: {
+    ruleId: string;
+    findings: Finding[];
+    ms: number;
+    files: string[];
+    crashed: boolean;
+  }[];
+  parseIssues: ParseIssue[];
+};
+
+async function main() {
+  const input = workerData as WorkerInput;
+  const ctx = createRuleContext(input);
+  const results: WorkerOutput["results"] = [];
+  // config.plugins is already resolved; a failure here fails the worker
+  const rules = [
+    ...ALL_RULES,
+    ...pluginRules(
+      await loadPlugins(input.config.plugins ?? [], input.rootDir),
+    ),
+  ];
+
+  for (const id of input.ruleIds) {
+    const rule = rules.find((r) => r.id === id);
+    if (!rule) continue;
+
+    const { ctx: rctx, visited } = instrumentContext(ctx);
+    const t0 = performance.now();
+    let crashed = false;
+    const findings = await rule.run(rctx).catch((e: any) => {
+      crashed = true;
+      return [crashFinding(ctx, rule, e)];
+    });
+    results.push({
+      ruleId: id,
+      findings,
+      ms: performance.now() - t0,
+      files: [...visited],
+      crashed,
+    });
+  }
+
+  const out: WorkerOutput = {
+    results,
+    parseIssues: ctx.parseIssues?.() ?? [],
+  };
+  parentPort!.postMessage(out);
+}
+
+void main();
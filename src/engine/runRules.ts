@@ -1,16 +1,65 @@
 import type { Rule, RuleContext, Finding } from "./types.js";
-import { discoverAuthGuards } from "../utils/discoverAuthGuards.js";
+import {
+  discoverAuthGuards,
+  type DiscoveredAuth,
+} from "../utils/discoverAuthGuards.js";
+import { applyRuleOverrides, isRuleDisabled } from "./overrides.js";
+import { applySuppressions } from "./suppressions.js";
+import { instrumentContext, type RuleProfile } from "./profile.js";
+import { runShardedInWorkers, shouldUseWorkers } from "./parallel.js";
+import { withFiles } from "./context.js";
+import { orderByFile, type ScanCache } from "./scanCache.js";
+import type { ParseIssue } from "./sourceCache.js";
+import { ruleApplies } from "../rules/index.js";
 
-export async function runRules(
+export const PARSE_ERROR_RULE_ID = "parse-error";
+
+export interface RunRulesOptions {
+  /** Worker threads for `parallel` rules; <= 1 runs everything in-process. */
+  jobs?: number;
+  /** Incremental scan cache; omit to always run every rule on every file. */
+  cache?: ScanCache;
+  /** Result of an earlier auth discovery prepass to reuse (watch mode). */
+  discoveredAuth?: DiscoveredAuth;
+}
+
+type RulePlan = {
+  rule: Rule;
+  /** Files the rule runs on this time (all of ctx.files unless cached). */
+  files: string[];
+  /** Findings served from the scan cache. */
+  cached: Finding[];
+  run: boolean;
+  result?: { findings: Finding[]; crashed: boolean };
+};
+
+// Plugin rules name the plugin so it's clear whose rule broke.
+export function crashFinding(ctx: RuleContext, rule: Rule, e: any): Finding {
+  const from = rule.plugin ? ` (plugin "${rule.plugin.name}")` : "";
+  return {
+    ruleId: rule.id,
+    severity: "info",
+    message: `Rule crashed${from}: ${String(e?.message ?? e)}`,
+    file: ctx.rootDir,
+  };
+}
+
+/**
+ * Runs the rules concurrently and returns findings in rule order (then each
+ * rule's own order), plus per-rule profile rows for `--profile`.
+ */
+export async function runRulesDetailed(
   ctx: RuleContext,
   rules: Rule[],
-): Promise<Finding[]> {
+  opts: RunRulesOptions = {},
+): Promise<{ findings: Finding[]; profile: RuleProfile[] }> {
   const out: Finding[] = [];
+  const profile: RuleProfile[] = [];
 
   // --- Prepass: discover auth guard signals once (shared across rules) ---
-  // Scans repo files via ctx.files + ctx.readFile, then stashes results on config.
+  // Scans repo files via ctx.files + ctx.getSource, then stashes results on config.
   try {
-    const discovered = await discoverAuthGuards(ctx);
+    const discovered = opts.discoveredAuth ?? (await discoverAuthGuards(ctx));
     (ctx.config as any).__discoveredAuth = discovered ?? {};
   } catch (e: any) {
     out.push({
@@ -22,24 +71,160 @@ export async function runRules(
     (ctx.config as any).__discoveredAuth = {};
   }
 
-  // --- Run rules ---
-  for (const rule of rules) {
-    if (!rule.stack.includes("auto") && !rule.stack.includes(ctx.repo.stack))
+  // --- Select rules ---
+  const active = rules.filter(
+    (rule) =>
+      ruleApplies(rule, ctx.repo) &&
+      !isRuleDisabled(ctx.config.ruleOverrides, rule.id),
+  );
+  const ran = new Set(active.map((r) => r.id));
+
+  // --- Scan cache: which files each rule still has to look at ---
+  const cache = opts.cache;
+  await cache?.prepare(ctx);
+
+  const plans: RulePlan[] = active.map((rule) => {
+    if (!cache) return { rule, files: ctx.files, cached: [], run: true };
+    if (rule.scope === "file") {
+      const { files, cached } = cache.planFileRule(rule);
+      return { rule, files, cached, run: files.length > 0 };
+    }
+    const hit = cache.repoRule(rule);
+    return hit
+      ? { rule, files: [], cached: hit, run: false }
+      : { rule, files: ctx.files, cached: [], run: true };
+  });
+
+  // --- File-scoped heavy rules: shard across worker threads when worthwhile ---
+  const jobs = opts.jobs ?? 1;
+  const workerParseIssues: ParseIssue[] = [];
+  const groups = new Map<string, RulePlan[]>();
+  for (const plan of plans) {
+    if (!plan.run || !plan.rule.parallel || plan.rule.scope !== "file")
       continue;
+    if (!shouldUseWorkers(plan.files.length, jobs)) continue;
+    const key = plan.files === ctx.files ? "*" : plan.files.join("\n");
+    groups.set(key, [...(groups.get(key) ?? []), plan]);
+  }
 
-    const findings = await rule.run(ctx).catch((e: any) => {
-      return [
-        {
+  for (const group of groups.values()) {
+    const files = group[0].files;
+    try {
+      const res = await runShardedInWorkers(
+        withFiles(ctx, files),
+        group.map((p) => p.rule),
+        jobs,
+      );
+      for (const plan of group) {
+        const r = res.byRule.get(plan.rule.id)!;
+        plan.result = { findings: r.findings, crashed: r.crashed };
+        profile.push({
+          ruleId: plan.rule.id,
+          ms: r.ms,
+          files: r.files,
+          findings: r.findings.length,
+          mode: `workers:${jobs}`,
+        });
+      }
+      workerParseIssues.push(...res.parseIssues);
+    } catch {
+      // worker startup/crash: these rules run in-process below instead
+    }
+  }
+
+  // --- Run the rest concurrently on the main thread (shared cache) ---
+  await Promise.all(
+    plans.map(async (plan) => {
+      const { rule } = plan;
+      if (!plan.run) {
+        profile.push({
           ruleId: rule.id,
-          severity: "info",
-          message: `Rule crashed: ${String(e?.message ?? e)}`,
-          file: ctx.rootDir,
-        },
-      ] satisfies Finding[];
-    });
+          ms: 0,
+          files: 0,
+          findings: plan.cached.length,
+          mode: "cache",
+        });
+        return;
+      }
+      if (plan.result) return;
 
-    out.push(...findings);
+      const { ctx: rctx, visited } = instrumentContext(
+        withFiles(ctx, plan.files),
+      );
+      const t0 = performance.now();
+      let crashed = false;
+      const findings = await rule.run(rctx).catch((e: any) => {
+        crashed = true;
+        return [crashFinding(ctx, rule, e)];
+      });
+      plan.result = { findings, crashed };
+      profile.push({
+        ruleId: rule.id,
+        ms: performance.now() - t0,
+        files: visited.size,
+        findings: findings.length,
+        mode: "main",
+      });
+    }),
+  );
+
+  // rule order, not completion order; cached findings slot back in by file
+  for (const plan of plans) {
+    const fresh = plan.result?.findings ?? [];
+    out.push(
+      ...(plan.cached.length
+        ? orderByFile(ctx.files, [...plan.cached, ...fresh])
+        : fresh),
+    );
+    if (!cache || !plan.result || plan.result.crashed) continue;
+    if (plan.rule.scope === "file")
+      cache.storeFileRule(plan.rule, plan.files, fresh);
+    else cache.storeRepoRule(plan.rule, fresh);
+  }
+
+  // --- Parse errors from the shared AST cache (instead of silently skipping) ---
+  const fresh = new Map<string, ParseIssue>();
+  for (const p of [...workerParseIssues, ...(ctx.parseIssues?.() ?? [])]) {
+    if (!fresh.has(p.file)) fresh.set(p.file, p);
+  }
+  const parseIssues = cache
+    ? cache.parseIssues([...fresh.values()])
+    : [...fresh.values()];
+  for (const p of parseIssues.sort((a, b) =>
+    a.file < b.file ? -1 : a.file > b.file ? 1 : 0,
+  )) {
+    out.push({
+      ruleId: PARSE_ERROR_RULE_ID,
+      severity: "info",
+      file: p.file,
+      line: p.line,
+      col: p.col,
+      message: p.fatal
+        ? `Could not parse file (${p.message}); AST-based rules skipped it.`
+        : `File parsed with errors (${p.message}); AST-based results may be incomplete.`,
+    });
   }
 
-  return out;
+  await cache?.save().catch(() => {});
+
+  // --- Inline suppression comments (vibecheck-disable-*, legacy aliases) ---
+  const unsuppressed = await applySuppressions(ctx, out, ran);
+
+  // --- Apply ruleOverrides (severity remap, include/exclude globs) ---
+  return {
+    findings: applyRuleOverrides(
+      unsuppressed,
+      ctx.config.ruleOverrides,
+      ctx.repoRoot,
+    ),
+    profile,
+  };
+}
+
+export async function runRules(
+  ctx: RuleContext,
+  rules: Rule[],
+  opts: RunRulesOptions = {},
+): Promise<Finding[]> {
+  return (await runRulesDetailed(ctx, rules, opts)).findings;
 }
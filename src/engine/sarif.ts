@@ -1,33 +1,232 @@
-import type { Finding } from "./types.js";
+import { pathToFileURL } from "node:url";
+import type { Finding, Rule, Severity } from "./types.js";
+import { suppressionNotes, type FilteredReport } from "./outputFilter.js";
+import { severityRank } from "./severity.js";
+import { relFile, stableFindingIds, type SourceReader } from "./baseline.js";
+import { PARSE_ERROR_RULE_ID } from "./runRules.js";
+import { ruleHelpMarkdown } from "./ruleDocs.js";
+import { VERSION } from "../version.js";
 
-export function toSarif(findings: Finding[], rootDir: string) {
+/**
+ * `--format sarif`: SARIF 2.1.0 for code-scanning UIs. Results link to a
+ * reportingDescriptor per rule that ran, carry the baseline fingerprint as
+ * partialFingerprints, and with `--baseline` baselined findings are kept as
+ * suppressed "unchanged" results instead of being dropped. Autofixes are
+ * included as result fixes (character-offset replacements).
+ */
+
+function sarifFix(f: Finding, rootDir: string) {
+  return {
+    description: { text: f.fix!.description },
+    artifactChanges: [
+      {
+        artifactLocation: {
+          uri: encodeURI(relFile(rootDir, f.file)),
+          uriBaseId: "SRCROOT",
+        },
+        replacements: f.fix!.edits.map((e) => ({
+          deletedRegion: { charOffset: e.start, charLength: e.end - e.start },
+          insertedContent: { text: e.text },
+        })),
+      },
+    ],
+  };
+}
+
+export interface SarifReportInput {
+  /** Findings to report (new ones, when a baseline is used). */
+  findings: Finding[];
+  /** Findings matched by the baseline; omit when no baseline is used. */
+  baselined?: Finding[];
+  rootDir: string;
+  /** Rules that ran; each becomes a reportingDescriptor. */
+  rules: Rule[];
+  report?: FilteredReport;
+  getSource: SourceReader;
+  invocation?: {
+    commandLine?: string;
+    startTime?: Date;
+    endTime?: Date;
+  };
+}
+
+const LEVEL: Record<Severity, "error" | "warning" | "note"> = {
+  blocker: "error",
+  high: "error",
+  med: "warning",
+  low: "note",
+  info: "note",
+};
+
+// GitHub code scanning buckets: >= 9 critical, >= 7 high, >= 4 medium, else low.
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  blocker: "9.5",
+  high: "8.0",
+  med: "5.5",
+  low: "3.0",
+  info: "1.0",
+};
+
+const FINGERPRINT_KEY = "vibecheckFingerprint/v1";
+
+function mostSevere(findings: Finding[]): Severity | undefined {
+  return findings
+    .map((f) => f.severity)
+    .sort((a, b) => severityRank(a) - severityRank(b))[0];
+}
+
+function descriptor(
+  id: string,
+  rule: Rule | undefined,
+  description: string,
+  findings: Finding[],
+) {
+  const hints = [...new Set(findings.flatMap((f) => f.fixHint ?? []))];
+  const severity = rule?.docs?.defaultSeverity ?? mostSevere(findings);
+  const markdown = rule
+    ? ruleHelpMarkdown(rule, hints)
+    : [
+        description,
+        ...(hints.length
+          ? ["", "**How to fix**", "", ...hints.map((h) => `- ${h}`)]
+          : []),
+      ].join("\n");
+  return {
+    id,
+    name: id,
+    shortDescription: { text: description },
+    fullDescription: { text: rule?.docs?.rationale ?? description },
+    help: {
+      text: [
+        description,
+        ...(rule?.docs ? [rule.docs.rationale] : []),
+        ...hints.map((h) => `Fix: ${h}`),
+      ].join("\n"),
+      markdown,
+    },
+    ...(severity ? { defaultConfiguration: { level: LEVEL[severity] } } : {}),
+    properties: {
+      tags: ["security"],
+      ...(severity ? { "security-severity": SECURITY_SEVERITY[severity] } : {}),
+    },
+  };
+}
+
+export async function toSarif(input: SarifReportInput) {
+  const { findings, baselined, rootDir, rules, report } = input;
+  const notes = report ? suppressionNotes(report) : [];
+  const all = [...findings, ...(baselined ?? [])];
+  const ids = await stableFindingIds(all, rootDir, input.getSource);
+
+  // One descriptor per rule that ran, plus engine ids (parse-error).
+  const byId = new Map(rules.map((r) => [r.id, r]));
+  const descriptions = new Map(rules.map((r) => [r.id, r.description]));
+  for (const f of all) {
+    if (!descriptions.has(f.ruleId))
+      descriptions.set(
+        f.ruleId,
+        f.ruleId === PARSE_ERROR_RULE_ID
+          ? "File could not be parsed; AST-based rules skipped it."
+          : f.ruleId,
+      );
+  }
+  const ruleIds = [...descriptions.keys()];
+  const ruleIndex = new Map(ruleIds.map((id, i) => [id, i]));
+
+  const result = (f: Finding, i: number) => {
+    const isBaselined = i >= findings.length;
+    return {
+      ruleId: f.ruleId,
+      ruleIndex: ruleIndex.get(f.ruleId),
+      level: LEVEL[f.severity],
+      message: {
+        text: f.message,
+        ...(f.fixHint
+          ? { markdown: `${f.message}\n\n**Fix:** ${f.fixHint}` }
+          : {}),
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: encodeURI(relFile(rootDir, f.file)),
+              uriBaseId: "SRCROOT",
+            },
+            region: {
+              startLine: f.line ?? 1,
+              startColumn: (f.col ?? 0) + 1,
+            },
+          },
+        },
+      ],
+      partialFingerprints: { [FINGERPRINT_KEY]: ids[i] },
+      ...(f.fix ? { fixes: [sarifFix(f, rootDir)] } : {}),
+      ...(baselined
+        ? { baselineState: isBaselined ? "unchanged" : "new" }
+        : {}),
+      ...(isBaselined
+        ? {
+            suppressions: [
+              {
+                kind: "external",
+                justification: "Matched an entry in the vibecheck baseline.",
+              },
+            ],
+          }
+        : {}),
+      properties: {
+        severity: f.severity,
+        "security-severity": SECURITY_SEVERITY[f.severity],
+        ...(f.package ? { package: f.package } : {}),
+      },
+    };
+  };
+
+  const { invocation } = input;
   return {
     version: "2.1.0",
     $schema: "https://json.schemastore.org/sarif-2.1.0.json",
     runs: [
       {
-        tool: { driver: { name: "vibecheck", rules: [] } },
-        results: findings.map((f) => ({
-          ruleId: f.ruleId,
-          level:
-            f.severity === "blocker" || f.severity === "high"
-              ? "error"
-              : f.severity === "med"
-              ? "warning"
-              : "note",
-          message: { text: f.message },
-          locations: [
-            {
-              physicalLocation: {
-                artifactLocation: {
-                  uri: f.file.startsWith(rootDir) ? f.file.slice(rootDir.length + 1) : f.file
-                },
-                region: { startLine: f.line ?? 1, startColumn: (f.col ?? 0) + 1 }
-              }
-            }
-          ]
-        }))
-      }
-    ]
+        tool: {
+          driver: {
+            name: "vibecheck",
+            version: VERSION,
+            semanticVersion: VERSION,
+            rules: ruleIds.map((id) =>
+              descriptor(
+                id,
+                byId.get(id),
+                descriptions.get(id)!,
+                all.filter((f) => f.ruleId === id),
+              ),
+            ),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: pathToFileURL(rootDir + "/").href },
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            ...(invocation?.commandLine
+              ? { commandLine: invocation.commandLine }
+              : {}),
+            ...(invocation?.startTime
+              ? { startTimeUtc: invocation.startTime.toISOString() }
+              : {}),
+            ...(invocation?.endTime
+              ? { endTimeUtc: invocation.endTime.toISOString() }
+              : {}),
+            workingDirectory: { uri: pathToFileURL(process.cwd() + "/").href },
+            toolExecutionNotifications: notes.map((text) => ({
+              level: "note",
+              message: { text },
+            })),
+          },
+        ],
+        results: all.map(result),
+      },
+    ],
   };
 }
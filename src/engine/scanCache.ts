@@ -0,0 +1,228 @@
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import type { Finding, Rule, RuleContext } from "./types.js";
+import type { ParseIssue } from "./sourceCache.js";
+import { toPosix } from "../utils/path.js";
+import { VERSION } from "../version.js";
+
+/**
+ * Incremental scan cache (.vibecheck/cache.json).
+ *
+ * Raw rule findings (before suppressions / ruleOverrides) are stored per
+ *   file content hash + rule id + rule version
+ * for file-scoped rules, and per hash of the whole file set for repo-wide
+ * rules. Everything is dropped when the vibecheck version or the relevant
+ * config changes; that config hash includes the discovered auth hints, so a
+ * new guard or `vibecheck:public-api` comment anywhere invalidates the cache.
+ */
+
+export const CACHE_FILE = path.join(".vibecheck", "cache.json");
+
+const CACHE_FORMAT = 1;
+
+// Applied after rules run (on cached findings too), so they don't invalidate.
+const POST_PROCESSING_KEYS = ["ruleOverrides", "output", "suppressions"];
+
+type CachedFinding = Omit<Finding, "file"> & { file: string };
+
+type CachedFile = {
+  hash: string;
+  parseIssue?: Omit<ParseIssue, "file">;
+  /** rule key -> findings in this file (repo-relative file paths). */
+  rules: Record<string, CachedFinding[]>;
+};
+
+type CacheData = {
+  format: number;
+  tool: string;
+  configHash: string;
+  files: Record<string, CachedFile>;
+  repoRules: Record<string, { key: string; findings: CachedFinding[] }>;
+};
+
+function sha1(s: string): string {
+  return createHash("sha1").update(s).digest("hex");
+}
+
+function ruleKey(rule: Rule): string {
+  // plugin rules are also keyed by the plugin's version
+  const plugin = rule.plugin?.version ? `+${rule.plugin.version}` : "";
+  return `${rule.id}@${rule.version ?? 1}${plugin}`;
+}
+
+function emptyData(configHash: string): CacheData {
+  return {
+    format: CACHE_FORMAT,
+    tool: VERSION,
+    configHash,
+    files: {},
+    repoRules: {},
+  };
+}
+
+/** Keep each file's findings together, in ctx.files order (stable within a file). */
+export function orderByFile(files: string[], findings: Finding[]): Finding[] {
+  const rank = new Map(files.map((f, i) => [f, i]));
+  return findings
+    .map((f, i) => ({ f, i, r: rank.get(f.file) ?? files.length }))
+    .sort((a, b) => a.r - b.r || a.i - b.i)
+    .map((x) => x.f);
+}
+
+/**
+ * `unit` names a workspace package scanned on its own; its cache lives next
+ * to the repo's (.vibecheck/cache-<unit>.json), with repo-relative paths.
+ */
+export function createScanCache(rootDir: string, unit?: string) {
+  const file = unit
+    ? path.join(
+        rootDir,
+        ".vibecheck",
+        `cache-${unit.replace(/[^\w.-]+/g, "_")}.json`,
+      )
+    : path.join(rootDir, CACHE_FILE);
+  let data = emptyData("");
+  let ctx: RuleContext | null = null;
+  const hashes = new Map<string, string>(); // abs -> content hash
+  const dirty = new Set<string>(); // abs paths whose content changed
+  let repoKey = "";
+
+  const relOf = (abs: string) =>
+    abs.startsWith(rootDir)
+      ? toPosix(abs.slice(rootDir.length + 1))
+      : toPosix(abs);
+  const absOf = (rp: string) =>
+    path.isAbsolute(rp) ? rp : path.join(rootDir, rp);
+  const toCached = (f: Finding): CachedFinding => ({
+    ...f,
+    file: relOf(f.file),
+  });
+  const fromCached = (f: CachedFinding): Finding => ({
+    ...f,
+    file: absOf(f.file),
+  });
+
+  return {
+    file,
+
+    /**
+     * Hash the scanned files and load the cache. Call after the auth discovery
+     * prepass so the discovered hints are part of the config hash.
+     */
+    async prepare(scanCtx: RuleContext): Promise<void> {
+      ctx = scanCtx;
+      const relevant = Object.fromEntries(
+        Object.entries(ctx.config).filter(
+          ([k]) => !POST_PROCESSING_KEYS.includes(k),
+        ),
+      );
+      const configHash = sha1(
+        JSON.stringify({ config: relevant, repo: ctx.repo }),
+      );
+
+      try {
+        const raw = JSON.parse(await readFile(file, "utf8")) as CacheData;
+        if (
+          raw?.format === CACHE_FORMAT &&
+          raw.tool === VERSION &&
+          raw.configHash === configHash
+        )
+          data = raw;
+        else data = emptyData(configHash);
+      } catch {
+        data = emptyData(configHash);
+      }
+
+      for (const abs of ctx.files) {
+        const hash = sha1(await ctx.getSource(abs));
+        hashes.set(abs, hash);
+        const rp = relOf(abs);
+        if (data.files[rp]?.hash !== hash) {
+          dirty.add(abs);
+          data.files[rp] = { hash, rules: {} };
+        }
+      }
+      repoKey = sha1(
+        ctx.files.map((abs) => `${relOf(abs)}:${hashes.get(abs)}`).join("\n"),
+      );
+    },
+
+    /**
+     * Files a file-scoped rule still has to run on, plus the cached findings
+     * for the others.
+     */
+    planFileRule(rule: Rule): { files: string[]; cached: Finding[] } {
+      const key = ruleKey(rule);
+      const files: string[] = [];
+      const cached: Finding[] = [];
+      for (const abs of ctx?.files ?? []) {
+        const hit = data.files[relOf(abs)]?.rules[key];
+        if (hit) cached.push(...hit.map(fromCached));
+        else files.push(abs);
+      }
+      return { files, cached };
+    },
+
+    storeFileRule(rule: Rule, files: string[], findings: Finding[]): void {
+      const key = ruleKey(rule);
+      const byFile = new Map<string, CachedFinding[]>(
+        files.map((abs) => [abs, []]),
+      );
+      for (const f of findings) byFile.get(f.file)?.push(toCached(f));
+      for (const [abs, list] of byFile) {
+        const entry = data.files[relOf(abs)];
+        if (entry) entry.rules[key] = list;
+      }
+    },
+
+    /** Cached findings of a repo-wide rule if no scanned file changed. */
+    repoRule(rule: Rule): Finding[] | null {
+      const hit = data.repoRules[ruleKey(rule)];
+      return hit && hit.key === repoKey ? hit.findings.map(fromCached) : null;
+    },
+
+    storeRepoRule(rule: Rule, findings: Finding[]): void {
+      data.repoRules[ruleKey(rule)] = {
+        key: repoKey,
+        findings: findings.map(toCached),
+      };
+    },
+
+    /**
+     * Record this run's parse issues and return them together with the cached
+     * ones for unchanged files that no rule parsed this time.
+     */
+    parseIssues(fresh: ParseIssue[]): ParseIssue[] {
+      const byFile = new Map(fresh.map((p) => [p.file, p]));
+      const out: ParseIssue[] = [...fresh];
+      for (const abs of ctx?.files ?? []) {
+        const entry = data.files[relOf(abs)];
+        if (!entry) continue;
+        const p = byFile.get(abs);
+        if (p) {
+          const { file: _file, ...rest } = p;
+          entry.parseIssue = rest;
+        } else if (dirty.has(abs)) {
+          delete entry.parseIssue;
+        } else if (entry.parseIssue) {
+          out.push({ file: abs, ...entry.parseIssue });
+        }
+      }
+      return out;
+    },
+
+    /** Write the cache, dropping entries for files that no longer exist. */
+    async save(): Promise<void> {
+      for (const rp of Object.keys(data.files)) {
+        if (!hashes.has(absOf(rp)) && !existsSync(absOf(rp)))
+          delete data.files[rp];
+      }
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, JSON.stringify(data), "utf8");
+    },
+  };
+}
+
+export type ScanCache = ReturnType<typeof createScanCache>;
@@ -0,0 +1,25 @@
+import type { Severity } from "./types.js";
+
+/** Most severe first. */
+export const SEVERITY_ORDER: Severity[] = ["blocker", "high", "med", "low", "info"];
+
+const ALIASES: Record<string, Severity> = {
+  blocker: "blocker",
+  critical: "blocker",
+  high: "high",
+  med: "med",
+  medium: "med",
+  low: "low",
+  info: "info",
+};
+
+/** Accepts the canonical names plus friendly aliases ("medium", "critical"). */
+export function parseSeverity(v: unknown): Severity | undefined {
+  if (typeof v !== "string") return undefined;
+  return ALIASES[v.trim().toLowerCase()];
+}
+
+/** Lower rank = more severe. */
+export function severityRank(s: Severity): number {
+  return SEVERITY_ORDER.indexOf(s);
+}
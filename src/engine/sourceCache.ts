@@ -0,0 +1,83 @@
+import { readText } from "../utils/readText.js";
+import { parseTs, isParsableFile, type Ast } from "../utils/ast.js";
+
+export type ParseIssue = {
+  file: string;
+  message: string;
+  line?: number;
+  col?: number;
+  /** false when Babel recovered and an AST is still available. */
+  fatal: boolean;
+};
+
+/**
+ * Per-scan memo of file contents and ASTs, shared by every rule through
+ * RuleContext.getSource / getAst. Each file is read at most once and parsed
+ * at most once (with the one Babel parser in utils/ast.ts).
+ */
+export function createSourceCache(maxFileBytes: number) {
+  const sources = new Map<string, Promise<string>>();
+  const asts = new Map<string, Promise<Ast | null>>();
+  const issues = new Map<string, ParseIssue>();
+
+  const getSource = (abs: string): Promise<string> => {
+    let p = sources.get(abs);
+    if (!p) {
+      // unreadable / oversized files behave like empty files, as before
+      p = readText(abs, maxFileBytes).catch(() => "");
+      sources.set(abs, p);
+    }
+    return p;
+  };
+
+  const getAst = (abs: string): Promise<Ast | null> => {
+    let p = asts.get(abs);
+    if (!p) {
+      p = getSource(abs).then((code) => {
+        if (!code || !isParsableFile(abs)) return null;
+        try {
+          const ast = parseTs(code, abs);
+          const first = (ast as any).errors?.[0];
+          if (first) {
+            issues.set(abs, {
+              file: abs,
+              message: String(first.message ?? first).replace(/\s*\(\d+:\d+\)$/, ""),
+              line: first.loc?.line,
+              col: first.loc?.column,
+              fatal: false,
+            });
+          }
+          return ast;
+        } catch (e: any) {
+          issues.set(abs, {
+            file: abs,
+            message: String(e?.message ?? e).replace(/\s*\(\d+:\d+\)$/, ""),
+            line: e?.loc?.line,
+            col: e?.loc?.column,
+            fatal: true,
+          });
+          return null;
+        }
+      });
+      asts.set(abs, p);
+    }
+    return p;
+  };
+
+  return {
+    getSource,
+    getAst,
+    /** Parse problems for every file whose AST was requested so far. */
+    parseIssues: (): ParseIssue[] => [...issues.values()],
+    /** Forget files that changed on disk (watch mode keeps one cache). */
+    invalidate(files: Iterable<string>): void {
+      for (const abs of files) {
+        sources.delete(abs);
+        asts.delete(abs);
+        issues.delete(abs);
+      }
+    },
+  };
+}
+
+export type SourceCache = ReturnType<typeof createSourceCache>;
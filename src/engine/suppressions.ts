@@ -0,0 +1,284 @@
+import type { CheckerConfig, Finding, RuleContext } from "./types.js";
+
+/**
+ * Inline suppressions (engine-level, applies to every rule):
+ *
+ *   // vibecheck-disable-next-line <rule-id>[, <rule-id>] -- reason
+ *   // vibecheck-disable-line <rule-id> -- reason
+ *   // vibecheck-disable-file <rule-id> -- reason
+ *   /* vibecheck-disable <rule-id> -- reason *\/  ...  /* vibecheck-enable <rule-id> *\/
+ *
+ * Omitting the rule ids disables every rule. `--` starts the reason.
+ * Works after `//`, `/*`, `*`, `#` and SQL `--` comment markers.
+ *
+ * Legacy markers are kept as aliases (no reason required, never reported unused):
+ *   vibecheck:tenant-ok  -> prisma tenant heuristics, ~300 chars after the marker
+ *   vibecheck:public     -> next-api-auth-guard, whole file
+ */
+
+export const SUPPRESSION_RULE_ID = "vibecheck-suppression";
+
+type DirectiveKind = "next-line" | "line" | "file" | "block";
+
+export interface SuppressionDirective {
+  kind: DirectiveKind;
+  /** Rule ids, or "all" when none were listed. */
+  rules: string[] | "all";
+  reason?: string;
+  /** 1-based line of the directive itself. */
+  line: number;
+  col: number;
+  /** Inclusive line range the directive covers. */
+  fromLine: number;
+  toLine: number;
+  /** Legacy marker this directive was derived from, if any. */
+  alias?: string;
+  /** Only covers findings flagged `heuristic` (vibecheck:tenant-ok). */
+  heuristicOnly?: boolean;
+}
+
+const DIRECTIVE_RE =
+  /(?:\/\/|\/\*|\*|#|--)[ \t]*vibecheck-(disable-next-line|disable-line|disable-file|disable|enable)(?![\w-])([^\n]*)/g;
+
+const TENANT_OK_RULES = [
+  "prisma-missing-tenant-filter",
+  "prisma-write-tenant-boundary",
+];
+// Matches the window the prisma rules used to scan before each call site.
+const TENANT_OK_WINDOW = 300;
+
+function lineStarts(code: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineOf(starts: number[], idx: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= idx) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+}
+
+function parseTail(tail: string): {
+  rules: string[] | "all";
+  reason?: string;
+} {
+  const body = tail.replace(/\*\/.*$/, "");
+  const sep = body.search(/(^|\s)--(\s|$)/);
+  const idsPart = sep >= 0 ? body.slice(0, sep) : body;
+  const reason = sep >= 0 ? body.slice(sep).replace(/^\s*--/, "").trim() : "";
+  const ids = idsPart
+    .split(/[\s,]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return { rules: ids.length ? ids : "all", reason: reason || undefined };
+}
+
+export function parseSuppressions(code: string): SuppressionDirective[] {
+  const out: SuppressionDirective[] = [];
+  if (!code.includes("vibecheck")) return out;
+
+  const starts = lineStarts(code);
+  const lastLine = starts.length;
+  const open: SuppressionDirective[] = [];
+
+  DIRECTIVE_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = DIRECTIVE_RE.exec(code))) {
+    const idx = m.index;
+    const line = lineOf(starts, idx);
+    const col = idx - starts[line - 1];
+    const { rules, reason } = parseTail(m[2] ?? "");
+
+    const base = { rules, reason, line, col };
+
+    switch (m[1]) {
+      case "disable-next-line":
+        out.push({
+          ...base,
+          kind: "next-line",
+          fromLine: line + 1,
+          toLine: line + 1,
+        });
+        break;
+      case "disable-line":
+        out.push({ ...base, kind: "line", fromLine: line, toLine: line });
+        break;
+      case "disable-file":
+        out.push({ ...base, kind: "file", fromLine: 1, toLine: lastLine });
+        break;
+      case "disable": {
+        const d: SuppressionDirective = {
+          ...base,
+          kind: "block",
+          fromLine: line,
+          toLine: lastLine,
+        };
+        out.push(d);
+        open.push(d);
+        break;
+      }
+      case "enable":
+        // `enable` closes every open block; `enable <ids>` closes blocks naming those ids.
+        for (let i = open.length - 1; i >= 0; i--) {
+          const d = open[i];
+          const closes =
+            rules === "all" ||
+            (d.rules !== "all" && d.rules.some((r) => rules.includes(r)));
+          if (closes) {
+            d.toLine = line;
+            open.splice(i, 1);
+          }
+        }
+        break;
+    }
+  }
+
+  // --- legacy aliases ---
+  let i = code.indexOf("vibecheck:tenant-ok");
+  while (i >= 0) {
+    const line = lineOf(starts, i);
+    out.push({
+      kind: "line",
+      rules: TENANT_OK_RULES,
+      line,
+      col: i - starts[line - 1],
+      fromLine: line,
+      toLine: lineOf(starts, Math.min(code.length, i + TENANT_OK_WINDOW)),
+      alias: "vibecheck:tenant-ok",
+      // not the "Prisma in a client component" findings of the same rules
+      heuristicOnly: true,
+    });
+    i = code.indexOf("vibecheck:tenant-ok", i + 1);
+  }
+
+  const pub = code.indexOf("vibecheck:public");
+  if (pub >= 0) {
+    const line = lineOf(starts, pub);
+    out.push({
+      kind: "file",
+      rules: ["next-api-auth-guard"],
+      line,
+      col: pub - starts[line - 1],
+      fromLine: 1,
+      toLine: lastLine,
+      alias: "vibecheck:public",
+    });
+  }
+
+  return out;
+}
+
+function covers(d: SuppressionDirective, f: Finding): boolean {
+  if (d.rules !== "all" && !d.rules.includes(f.ruleId)) return false;
+  if (d.heuristicOnly && !f.heuristic) return false;
+  if (d.kind === "file") return true;
+  if (f.line == null) return false;
+  return f.line >= d.fromLine && f.line <= d.toLine;
+}
+
+// Without a reason a directive doesn't apply when suppressions.requireReason is on.
+function inEffect(d: SuppressionDirective, requireReason: boolean): boolean {
+  return Boolean(d.alias || !requireReason || d.reason);
+}
+
+/**
+ * Whether applySuppressions() will drop `finding`, given its file's
+ * directives. Rules that cap findings per file use it so suppressed call
+ * sites don't use up the cap.
+ */
+export function isSuppressed(
+  directives: SuppressionDirective[],
+  finding: Finding,
+  config: CheckerConfig,
+): boolean {
+  const requireReason = config.suppressions?.requireReason ?? false;
+  return directives.some(
+    (d) => inEffect(d, requireReason) && covers(d, finding),
+  );
+}
+
+/**
+ * Drop findings covered by suppression comments, and report:
+ * - directives missing a reason (when suppressions.requireReason is set; they don't apply)
+ * - directives that matched no finding (unless suppressions.reportUnused is false)
+ *
+ * `ranRules` limits unused reporting to rules that actually ran.
+ */
+export async function applySuppressions(
+  ctx: RuleContext,
+  findings: Finding[],
+  ranRules: Set<string>,
+): Promise<Finding[]> {
+  const requireReason = ctx.config.suppressions?.requireReason ?? false;
+  const reportUnused = ctx.config.suppressions?.reportUnused ?? true;
+
+  const byFile = new Map<string, Finding[]>();
+  for (const f of findings) {
+    const arr = byFile.get(f.file) ?? [];
+    arr.push(f);
+    byFile.set(f.file, arr);
+  }
+
+  const suppressed = new Set<Finding>();
+  const meta: Finding[] = [];
+
+  for (const abs of ctx.files) {
+    const code = await ctx.getSource(abs).catch(() => "");
+    if (!code || !code.includes("vibecheck")) continue;
+
+    const directives = parseSuppressions(code);
+    if (!directives.length) continue;
+
+    const fileFindings = byFile.get(abs) ?? [];
+
+    for (const d of directives) {
+      if (!inEffect(d, requireReason)) {
+        meta.push({
+          ruleId: SUPPRESSION_RULE_ID,
+          severity: "low",
+          file: abs,
+          line: d.line,
+          col: d.col,
+          message:
+            "Suppression comment has no reason and was ignored (suppressions.requireReason is on).",
+          fixHint:
+            "Add a reason after `--`, e.g. `// vibecheck-disable-next-line <rule-id> -- public by design`.",
+        });
+        continue;
+      }
+
+      let used = false;
+      for (const f of fileFindings) {
+        if (covers(d, f)) {
+          suppressed.add(f);
+          used = true;
+        }
+      }
+
+      const relevant =
+        d.rules === "all" || d.rules.some((r) => ranRules.has(r));
+      if (!used && !d.alias && reportUnused && relevant) {
+        const what = d.rules === "all" ? "any rule" : d.rules.join(", ");
+        meta.push({
+          ruleId: SUPPRESSION_RULE_ID,
+          severity: "info",
+          file: abs,
+          line: d.line,
+          col: d.col,
+          message: `Unused suppression: no ${what} finding matched this vibecheck-disable comment.`,
+          fixHint: "Remove the comment; the finding it suppressed no longer occurs.",
+        });
+      }
+    }
+  }
+
+  return [...findings.filter((f) => !suppressed.has(f)), ...meta];
+}
@@ -1,19 +1,153 @@
+import type { Ast } from "../utils/ast.js";
+import type { ParseIssue } from "./sourceCache.js";
+
 export type Severity = "blocker" | "high" | "med" | "low" | "info";
 export type StackName = "auto" | "nextjs" | "vite" | "nestjs";
+
+/** Frameworks and libraries detected in a repo (see scanner/capabilities.ts). */
+export type Capability =
+  | "nextjs-app-router"
+  | "nextjs-pages"
+  | "vite"
+  | "nestjs"
+  | "prisma"
+  | "supabase"
+  | "drizzle"
+  | "nextauth"
+  | "clerk"
+  | "betterauth";
 export type AuthKind = "auto" | "nextauth" | "clerk" | "betterauth" | "custom" | "none";
-export type OutputFormat = "console" | "json" | "sarif";
+export type OutputFormat =
+  | "console"
+  | "json"
+  | "sarif"
+  | "html"
+  | "markdown"
+  | "junit"
+  | "gitlab";
+
+/**
+ * Per-rule tuning from vibecheck.json / `--rule`.
+ * - severity: remap every finding of the rule ("off" disables the rule)
+ * - include: only keep findings whose repo-relative path matches one of these globs
+ * - exclude: drop findings whose repo-relative path matches one of these globs
+ */
+export interface RuleOverride {
+  severity?: Severity | "off";
+  include?: string[];
+  exclude?: string[];
+}
+
+/** Report-stage filtering; applied after rules + baseline, before formatting. */
+export interface OutputConfig {
+  minSeverity?: Severity;
+  maxFindingsPerRule?: number;
+}
+
+/** Inline suppression comment behaviour (see engine/suppressions.ts). */
+export interface SuppressionConfig {
+  /** Ignore (and report) vibecheck-disable comments without a `-- reason`. */
+  requireReason?: boolean;
+  /** Report vibecheck-disable comments that matched no finding (default true). */
+  reportUnused?: boolean;
+}
+
+/** `auth` object form in vibecheck.json (hints for next-api-auth-guard). */
+export interface AuthHints {
+  guards?: string[];
+  publicApiExact?: string[];
+  publicApiPrefix?: string[];
+  proxyApiPrefix?: string[];
+}
 
 export interface CheckerConfig {
   stack: StackName;
   auth: AuthKind;
+  authHints: AuthHints;
   authGuards: string[];
   ignore: string[];
   maxFileBytes: number;
+  ruleOverrides: Record<string, RuleOverride>;
+  output: OutputConfig;
+  suppressions: SuppressionConfig;
+  /** Rule plugin modules / packages (see engine/plugins.ts). */
+  plugins?: string[];
+  /** Declarative rules (see engine/customRules.ts). */
+  customRules?: CustomRuleConfig[];
+  /** Monorepo packages: false to scan as one repo, or globs instead of the detected ones. */
+  workspaces?: boolean | string[];
+  /** Force capabilities on (true) or off (false) regardless of detection. */
+  capabilities?: Partial<Record<Capability, boolean>>;
+
+  // Prisma tenant heuristics (rule defaults apply when unset)
+  tenantKeys?: string[];
+  tenantReadOnlyPaths?: string[];
+  tenantReadIgnore?: string[];
+  tenantReadCalls?: string[];
+  tenantBoundaryOnly?: string[];
+  tenantBoundaryIgnore?: string[];
+}
+
+/** File kinds a custom rule can be limited to. */
+export type CustomRuleFileKind =
+  | "client-component"
+  | "route-handler"
+  | "middleware";
+
+/** One `customRules` entry in vibecheck.json. */
+export interface CustomRuleConfig {
+  id: string;
+  severity: Severity | "critical" | "medium";
+  description?: string;
+  /** .gitignore-style globs (repo-relative); default every scanned file. */
+  files?: string[];
+  exclude?: string[];
+  fileKind?: CustomRuleFileKind | CustomRuleFileKind[];
+  /** Exactly one of regex / selector. */
+  regex?: string;
+  /** call:<callee>, new:<callee> or import:<module>. */
+  selector?: string;
+  mustContain?: string;
+  mustNotContain?: string;
+  /** `{match}` is replaced with the matched text. */
+  message: string;
+  fixHint?: string;
+  /** Only run when one of these capabilities is detected. */
+  requires?: Capability[];
+}
+
+/** Where an effective config value came from (`vibecheck config print`). */
+export type ConfigSource = "default" | "file" | "cli" | "discovered";
+
+/** A detected capability and the evidence for it. */
+export interface DetectedCapability {
+  capability: Capability;
+  /** e.g. "dependency next", "app/ directory", "prisma/schema.prisma". */
+  reasons: string[];
 }
 
 export interface RepoDetectResult {
   rootDir: string;
+  /** Primary framework, derived from the capabilities. */
   stack: StackName;
+  capabilities: DetectedCapability[];
+}
+
+/** Replace [start, end) of the file (UTF-16 offsets into the scanned source) with `text`. */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Machine-applicable fix for a finding; applied by `vibecheck fix`. */
+export interface Fix {
+  /** Short imperative label, e.g. "Enable RLS on profiles". */
+  description: string;
+  /** Edits to the finding's file; zero-length ranges are insertions. */
+  edits: TextEdit[];
+  /** Changes behaviour or intent: `vibecheck fix` asks first (or needs --yes). */
+  confirm?: boolean;
 }
 
 export interface Finding {
@@ -24,20 +158,89 @@ export interface Finding {
   line?: number;
   col?: number;
   fixHint?: string;
+  fix?: Fix;
+  /** Heuristic finding; legacy `vibecheck:tenant-ok` markers only suppress these. */
+  heuristic?: boolean;
+  /** Workspace package (name) the file belongs to; unset outside packages. */
+  package?: string;
+}
+
+/** Per-package totals of a workspace scan; reports group findings by these. */
+export interface PackageSummary {
+  /** Package name; "(root)" for files outside every package. */
+  name: string;
+  /** Repo-relative directory ("." for the root). */
+  path: string;
+  stack: StackName;
+  capabilities: Capability[];
+  files: number;
+  summary: Record<Severity, number>;
 }
 
 export interface RuleContext {
+  /** Repo root, or the workspace package being scanned (rule paths are relative to it). */
   rootDir: string;
+  /** Repo root; ruleOverrides and customRules globs are relative to it. */
+  repoRoot: string;
   files: string[];
   relPaths: string[];
-  readFile: (absPath: string) => Promise<string>;
+  /** File contents (memoized; "" for unreadable or oversized files). */
+  getSource: (absPath: string) => Promise<string>;
+  /** Babel AST (memoized; null for non-code files and unparsable files). */
+  getAst: (absPath: string) => Promise<Ast | null>;
+  /** Engine use: parse problems collected by getAst, reported as findings. */
+  parseIssues?: () => ParseIssue[];
   config: CheckerConfig;
-  repo: { stack: StackName };
+  repo: { stack: StackName; capabilities: Capability[] };
+}
+
+/**
+ * Rule documentation, shown by `vibecheck explain` and used for the help text
+ * in SARIF and HTML reports.
+ */
+export interface RuleDocs {
+  /** Why the flagged pattern is a problem. */
+  rationale: string;
+  /** Code the rule flags. */
+  bad?: string;
+  /** The same code written so the rule passes. */
+  good?: string;
+  /** Most severe level the rule reports, before ruleOverrides. */
+  defaultSeverity: Severity;
+  /** CheckerConfig keys the rule reads. */
+  configKeys?: (keyof CheckerConfig)[];
+  /** Rule-specific (legacy) marker; vibecheck-disable comments always work. */
+  suppression?: string;
 }
 
 export interface Rule {
   id: string;
   description: string;
+  /** Stacks the rule is for; used when `requires` is unset. */
   stack: StackName[];
+  /** Run only when the repo (or package) has at least one of these capabilities. */
+  requires?: Capability[];
+  /**
+   * "file": findings for a file depend only on that file (+ config), so the
+   * engine may cache them per file and run the rule on a subset of files.
+   * "repo" (default): the rule looks across files and always sees all of them.
+   */
+  scope?: "file" | "repo";
+  /**
+   * How --diff-lines matches this rule's findings: "line" (default) keeps
+   * findings on added/modified lines; "file" keeps them when any line of the
+   * file changed (for findings about the whole file, e.g. a missing guard).
+   */
+  diffScope?: "line" | "file";
+  /** Bump when the rule's logic changes so cached findings are recomputed. */
+  version?: number;
+  /**
+   * CPU-heavy file-scoped rule: the engine may run it on file shards in
+   * worker threads. Requires scope "file".
+   */
+  parallel?: boolean;
+  docs?: RuleDocs;
+  /** Set by the plugin loader on rules that come from a plugin. */
+  plugin?: { name: string; version?: string };
   run: (ctx: RuleContext) => Promise<Finding[]>;
 }
@@ -0,0 +1,119 @@
+import path from "node:path";
+import type {
+  CheckerConfig,
+  Finding,
+  RepoDetectResult,
+  Rule,
+} from "./types.js";
+import { createSourceCache } from "./sourceCache.js";
+import { createScanCache } from "./scanCache.js";
+import { runScanUnits } from "./workspaces.js";
+import { filterFindings } from "./outputFilter.js";
+import { stableFindingIds } from "./baseline.js";
+import { discoverFiles } from "../scanner/discoverFiles.js";
+import {
+  splitScanUnits,
+  type WorkspacePackage,
+} from "../scanner/workspaces.js";
+import {
+  authSignature,
+  type DiscoveredAuth,
+} from "../utils/discoverAuthGuards.js";
+
+/**
+ * Incremental re-scans for `vibecheck watch`. One source cache lives across
+ * scans (changed files are invalidated), the scan cache limits file-scoped
+ * rules to changed files, and auth discovery only re-runs when a changed
+ * file's guards / public-api hints differ from last time.
+ */
+
+export interface WatchScan {
+  findings: Finding[];
+  /** Findings that weren't there in the previous scan. */
+  added: Finding[];
+  /** Previous findings that are gone. */
+  resolved: Finding[];
+  files: number;
+  /** Whether auth discovery ran again for this scan. */
+  rediscovered: boolean;
+}
+
+export function createWatchSession(opts: {
+  config: CheckerConfig;
+  /** Detected repo root (config is applied per scan unit). */
+  repo: RepoDetectResult;
+  /** Workspace packages (found once, when the session starts). */
+  packages?: WorkspacePackage[];
+  /** Plugin and custom rules (loaded.rules). */
+  rules: Rule[];
+  jobs?: number;
+}) {
+  const { config, repo, rules } = opts;
+  const { rootDir } = repo;
+  const sources = createSourceCache(config.maxFileBytes);
+  const signatures = new Map<string, string>(); // abs -> authSignature
+  // unit root -> its last auth discovery
+  let discovered: Map<string, DiscoveredAuth> | undefined;
+  let previous = new Map<string, Finding>(); // stable id -> finding
+  let files: string[] = [];
+
+  const relOf = (abs: string) => path.relative(rootDir, abs);
+
+  return {
+    /** Scan everything (first call) or re-scan after `changed` files changed. */
+    async scan(changed?: Iterable<string>): Promise<WatchScan> {
+      const before = new Set(files);
+      files = await discoverFiles(rootDir, config);
+      const now = new Set(files);
+
+      // Added/removed files count as changed even without a watcher event.
+      const touched = new Set<string>(changed ?? files);
+      for (const f of files) if (!before.has(f)) touched.add(f);
+      for (const f of before) if (!now.has(f)) touched.add(f);
+      sources.invalidate(touched);
+
+      let rediscover = !discovered;
+      for (const abs of touched) {
+        const sig = now.has(abs)
+          ? authSignature(relOf(abs), await sources.getSource(abs))
+          : "";
+        if (sig !== (signatures.get(abs) ?? "")) rediscover = true;
+        if (sig) signatures.set(abs, sig);
+        else signatures.delete(abs);
+      }
+
+      const units = splitScanUnits(repo, files, opts.packages ?? [], config);
+      const runs = await runScanUnits(units, {
+        repoRoot: rootDir,
+        config,
+        extraRules: rules,
+        sources,
+        jobs: opts.jobs,
+        cache: (unit) => createScanCache(rootDir, unit.package?.path),
+        discoveredAuth: (unit) =>
+          rediscover ? undefined : discovered?.get(unit.rootDir),
+      });
+      discovered = new Map(runs.map((r) => [r.unit.rootDir, r.discoveredAuth]));
+
+      const findings = filterFindings(
+        runs.flatMap((r) => r.findings),
+        config.output,
+      ).findings;
+      const ids = await stableFindingIds(findings, rootDir, sources.getSource);
+      const current = new Map(ids.map((id, i) => [id, findings[i]]));
+      const added = findings.filter((_, i) => !previous.has(ids[i]));
+      const resolved = [...previous]
+        .filter(([id]) => !current.has(id))
+        .map(([, f]) => f);
+      previous = current;
+
+      return {
+        findings,
+        added,
+        resolved,
+        files: files.length,
+        rediscovered: rediscover,
+      };
+    },
+  };
+}
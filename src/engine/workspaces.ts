@@ -0,0 +1,104 @@
+import type { CheckerConfig, Finding, PackageSummary, Rule } from "./types.js";
+import { ROOT_PACKAGE, type ScanUnit } from "../scanner/workspaces.js";
+import type { SourceCache } from "./sourceCache.js";
+import type { ScanCache } from "./scanCache.js";
+import type { RuleProfile } from "./profile.js";
+import type { DiscoveredAuth } from "../utils/discoverAuthGuards.js";
+import { createRuleContext } from "./context.js";
+import { runRulesDetailed } from "./runRules.js";
+import { summarize } from "./report.js";
+import { rulesForRepo } from "../rules/index.js";
+
+/**
+ * Rule runs per scan unit (scanner/workspaces.ts): each workspace package
+ * gets its own context rooted at the package, with the rules its
+ * capabilities call for,
+ * so path heuristics like `app/api/` are package-relative. The repo stays
+ * one scan otherwise: one source cache, one config, one report.
+ */
+
+export interface UnitRun {
+  unit: ScanUnit;
+  /** Findings tagged with the unit's package. */
+  findings: Finding[];
+  profile: RuleProfile[];
+  /** Rules selected for the unit's capabilities. */
+  rules: Rule[];
+  /** Auth hints discovered (or reused) for the unit. */
+  discoveredAuth: DiscoveredAuth;
+}
+
+export interface UnitRunOptions {
+  repoRoot: string;
+  config: CheckerConfig;
+  /** Plugin and custom rules (loaded.rules). */
+  extraRules: Rule[];
+  sources?: SourceCache;
+  jobs?: number;
+  cache?: (unit: ScanUnit) => ScanCache | undefined;
+  /** Earlier discovery to reuse per unit (watch mode). */
+  discoveredAuth?: (unit: ScanUnit) => DiscoveredAuth | undefined;
+}
+
+/** Run each unit in turn; findings keep unit order. */
+export async function runScanUnits(
+  units: ScanUnit[],
+  opts: UnitRunOptions,
+): Promise<UnitRun[]> {
+  const out: UnitRun[] = [];
+  for (const unit of units) {
+    // own copy: the auth prepass stashes its results on the config
+    const config = { ...opts.config };
+    const capabilities = unit.capabilities.map((c) => c.capability);
+    const ctx = createRuleContext({
+      rootDir: unit.rootDir,
+      repoRoot: opts.repoRoot,
+      files: unit.files,
+      config,
+      stack: unit.stack,
+      capabilities,
+      sources: opts.sources,
+    });
+    const rules = rulesForRepo(
+      { stack: unit.stack, capabilities },
+      opts.extraRules,
+    );
+    const run = await runRulesDetailed(ctx, rules, {
+      jobs: opts.jobs,
+      cache: opts.cache?.(unit),
+      discoveredAuth: opts.discoveredAuth?.(unit),
+    });
+    const name = unit.package?.name;
+    out.push({
+      unit,
+      findings: name
+        ? run.findings.map((f) => ({ ...f, package: name }))
+        : run.findings,
+      profile: name
+        ? run.profile.map((p) => ({ ...p, package: name }))
+        : run.profile,
+      rules,
+      discoveredAuth: (config as any).__discoveredAuth ?? {},
+    });
+  }
+  return out;
+}
+
+/** Per-package totals for `findings`; empty unless the units are packages. */
+export function summarizePackages(
+  units: ScanUnit[],
+  findings: Finding[],
+): PackageSummary[] {
+  if (!units.some((u) => u.package)) return [];
+  return units.map((u) => {
+    const name = u.package?.name;
+    return {
+      name: name ?? ROOT_PACKAGE,
+      path: u.package?.path ?? ".",
+      stack: u.stack,
+      capabilities: u.capabilities.map((c) => c.capability),
+      files: u.files.length,
+      summary: summarize(findings.filter((f) => f.package === name)),
+    };
+  });
+}
@@ -0,0 +1,107 @@
+import type { OutputFormat } from "./engine/types.js";
+import type { ScanResult } from "./scan.js";
+import { toSarif } from "./engine/sarif.js";
+import { toHtml } from "./engine/html.js";
+import { toMarkdown } from "./engine/markdown.js";
+import { toJunit } from "./engine/junit.js";
+import { toGitlabCodeQuality } from "./engine/gitlab.js";
+
+/** Every output format except the console printer. */
+export type ReportFormat = Exclude<OutputFormat, "console">;
+
+export interface FormatReportOptions {
+  /** markdown: prefix for file links. */
+  linkBase?: string;
+  /** markdown: size limit for the report. */
+  maxBytes?: number;
+  /** sarif: recorded as the invocation's command line. */
+  commandLine?: string;
+}
+
+/** Render a scan result in one of the machine-readable formats. */
+export async function formatReport(
+  result: ScanResult,
+  format: ReportFormat,
+  opts: FormatReportOptions = {},
+): Promise<string> {
+  const { findings, rootDir, stack, config, report, getSource } = result;
+  const baselined = result.baseline?.baselined;
+
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        {
+          rootDir,
+          repo: { stack, capabilities: result.capabilities },
+          config,
+          summary: result.summary,
+          ...(result.packages.length ? { packages: result.packages } : {}),
+          suppressed: {
+            belowMinSeverity: report.belowMinSeverity,
+            capped: report.capped,
+          },
+          ...(result.baseline
+            ? { baseline: { fixed: result.baseline.fixed } }
+            : {}),
+          findings,
+        },
+        null,
+        2,
+      );
+    case "markdown":
+      return toMarkdown({
+        findings,
+        baselined,
+        rootDir,
+        stack,
+        report,
+        packages: result.packages,
+        linkBase: opts.linkBase,
+        maxBytes: opts.maxBytes,
+      });
+    case "html":
+      return toHtml({
+        findings,
+        rootDir,
+        stack,
+        config,
+        rules: result.rules,
+        report,
+        getSource,
+      });
+    case "junit":
+      // Every rule that ran is a testcase, including ones served from the cache.
+      return toJunit(
+        findings,
+        rootDir,
+        result.profile.map((r) => r.ruleId),
+        result.durationMs,
+      );
+    case "gitlab":
+      return JSON.stringify(
+        await toGitlabCodeQuality(findings, rootDir, getSource),
+        null,
+        2,
+      );
+    case "sarif":
+      return JSON.stringify(
+        await toSarif({
+          findings,
+          baselined,
+          rootDir,
+          rules: result.rules,
+          report,
+          getSource,
+          invocation: {
+            commandLine: opts.commandLine,
+            startTime: result.startedAt,
+            endTime: new Date(
+              result.startedAt.getTime() + Math.round(result.durationMs),
+            ),
+          },
+        }),
+        null,
+        2,
+      );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Programmatic API:
+ *
+ *   import { scan, formatReport } from "vibecheck";
+ *   const result = await scan({ rootDir: "apps/web", baseline: ".vibecheck-baseline.json" });
+ *   const sarif = await formatReport(result, "sarif");
+ */
+
+export { scan, type ScanOptions, type ScanResult } from "./scan.js";
+export {
+  formatReport,
+  type FormatReportOptions,
+  type ReportFormat,
+} from "./formatReport.js";
+
+export type {
+  AuthKind,
+  Capability,
+  CheckerConfig,
+  DetectedCapability,
+  Finding,
+  Fix,
+  OutputFormat,
+  PackageSummary,
+  Rule,
+  RuleContext,
+  RuleDocs,
+  RuleOverride,
+  Severity,
+  StackName,
+  TextEdit,
+} from "./engine/types.js";
+export {
+  ALL_RULES,
+  ruleApplies,
+  rulesForRepo,
+  rulesForStack,
+} from "./rules/index.js";
+export {
+  CAPABILITIES,
+  detectCapabilities,
+  formatCapabilities,
+} from "./scanner/capabilities.js";
+export {
+  discoverWorkspaces,
+  type WorkspacePackage,
+} from "./scanner/workspaces.js";
+
+// Rule plugins (`plugins` in vibecheck.json)
+export {
+  definePlugin,
+  PLUGIN_API_VERSION,
+  type VibecheckPlugin,
+} from "./engine/plugins.js";
+
+// Formatters, for findings from scan() or elsewhere
+export { toSarif, type SarifReportInput } from "./engine/sarif.js";
+export { toHtml, type HtmlReportInput } from "./engine/html.js";
+export { toMarkdown, type MarkdownReportInput } from "./engine/markdown.js";
+export { toJunit } from "./engine/junit.js";
+export { toGitlabCodeQuality } from "./engine/gitlab.js";
+export { summarize } from "./engine/report.js";
+
+// Autofixes (`vibecheck fix`)
+export {
+  planFixes,
+  writeFixPlan,
+  type FileFixPlan,
+  type FixablePair,
+} from "./engine/fixes.js";
+
+// Rule fixture tests (`vibecheck test-rules`)
+export {
+  runRuleTests,
+  parseExpectations,
+  compareFindings,
+  type Expectation,
+  type FixtureResult,
+  type RuleTestOptions,
+} from "./testRules.js";
+
+// Errors scan() throws for bad input (the CLI exits 2 on these)
+export { ConfigError } from "./engine/configLoader.js";
+export { type ConfigIssue } from "./engine/configSchema.js";
+export {
+  ChangeSetError,
+  type ChangeKind,
+} from "./scanner/changedFiles.js";
+
+export { VERSION } from "./version.js";
@@ -15,3 +15,18 @@ export function firstLineCol(code: string, idx: number): { line: number; col: nu
   const lines = pre.split(/\r?\n/);
   return { line: lines.length, col: lines[lines.length - 1].length };
 }
+
+// A shebang, then leading comments, blank lines and "use ..." directives:
+// inserted lines go after them (a directive only works at the very top).
+const PROLOGUE_RE = /^(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|["']use [a-z ]+["'];?)/;
+
+export function prologueEnd(code: string): number {
+  let at = code.startsWith("#!") ? code.indexOf("\n") + 1 || code.length : 0;
+  let m: RegExpExecArray | null;
+  while (at < code.length && (m = PROLOGUE_RE.exec(code.slice(at)))) {
+    at += m[0].length;
+  }
+  // start of the first code line, unless code follows a directive on its line
+  const lineStart = code.lastIndexOf("\n", at - 1) + 1;
+  return code.slice(lineStart, at).trim() ? at : lineStart;
+}
@@ -1,4 +1,4 @@
-import type { Rule, StackName } from "../engine/types.js";
+import type { Capability, Rule, StackName } from "../engine/types.js";
 
 import { corsWildcardCredentialsRule } from "./security/corsWildcardCredentials.js";
 
@@ -50,6 +50,29 @@ export const ALL_RULES: Rule[] = [
   supabaseServiceRoleKeyRule,
 ];
 
-export function rulesForStack(stack: StackName): Rule[] {
-  return ALL_RULES.filter((r) => r.stack.includes(stack));
+/**
+ * Whether `rule` runs for a repo: one of its `requires` capabilities is
+ * present, or (rules without `requires`, and when capabilities are unknown)
+ * its `stack` list includes the repo's stack.
+ */
+export function ruleApplies(
+  rule: Rule,
+  repo: { stack: StackName; capabilities?: Capability[] },
+): boolean {
+  if (rule.requires?.length && repo.capabilities)
+    return rule.requires.some((c) => repo.capabilities!.includes(c));
+  return rule.stack.includes(repo.stack);
+}
+
+/** Built-in rules for the repo, then `extra` (plugin and custom) rules for it. */
+export function rulesForRepo(
+  repo: { stack: StackName; capabilities?: Capability[] },
+  extra: Rule[] = [],
+): Rule[] {
+  return [...ALL_RULES, ...extra].filter((r) => ruleApplies(r, repo));
+}
+
+/** Built-in rules for `stack`, then `extra` (plugin) rules for it. */
+export function rulesForStack(stack: StackName, extra: Rule[] = []): Rule[] {
+  return rulesForRepo({ stack }, extra);
 }
@@ -1,5 +1,5 @@
 import type { Rule, Finding } from "../../engine/types.js";
-import { rel, isNextApiRoute, firstLineCol } from "../_shared.js";
+import { rel, isNextApiRoute, firstLineCol, prologueEnd } from "../_shared.js";
 
 function toRoutePathFromRelPath(rp: string): string {
   // rp example: app/api/health/route.ts
@@ -33,6 +33,25 @@ export const nextApiAuthGuardRule: Rule = {
   id: "next-api-auth-guard",
   description: "Ensure API routes call an auth guard early.",
   stack: ["nextjs", "auto"],
+  requires: ["nextjs-app-router", "nextjs-pages"],
+  scope: "file",
+  diffScope: "file",
+  version: 3,
+  docs: {
+    rationale:
+      "Route handlers under app/api are public HTTP endpoints. A handler that never calls the auth guard serves every caller, including unauthenticated ones. Routes the middleware marks as public or proxied are still reported, as info.",
+    bad: `export async function GET() {
+  return Response.json(await db.invoice.findMany());
+}`,
+    good: `export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session) return new Response("Unauthorized", { status: 401 });
+  return Response.json(await db.invoice.findMany({ where: { orgId: session.orgId } }));
+}`,
+    defaultSeverity: "high",
+    configKeys: ["auth", "authGuards", "authHints"],
+    suppression: "// vibecheck:public (anywhere in the route file)",
+  },
   async run(ctx) {
     const out: Finding[] = [];
 
@@ -61,14 +80,11 @@ export const nextApiAuthGuardRule: Rule = {
       const rp = rel(ctx, abs);
       if (!isNextApiRoute(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       const routePath = toRoutePathFromRelPath(rp);
 
-      // Explicit per-file suppress = totally skip
-      if (code.includes("vibecheck:public")) continue;
-
       // does it call any auth guard?
       const hasGuard = guards.some(
         (g) => code.includes(g + "(") || code.includes(g + " ("),
@@ -93,6 +109,7 @@ export const nextApiAuthGuardRule: Rule = {
           ? " (appears intentionally public/proxy; verify this is intended)"
           : "";
 
+      const at = prologueEnd(code);
       out.push({
         ruleId: "next-api-auth-guard",
         severity,
@@ -107,6 +124,13 @@ export const nextApiAuthGuardRule: Rule = {
           .join(
             ", ",
           )}) and enforce role/tenant checks before DB access. If intentionally public/proxy, consider adding "vibecheck:public" or a middleware hint (vibecheck:public-api / vibecheck:public-api-prefix).`,
+        // Only the author knows whether the route is meant to be public.
+        fix: {
+          description:
+            "Mark the route as public (// vibecheck:public turns this rule off for the whole file)",
+          edits: [{ start: at, end: at, text: "// vibecheck:public\n" }],
+          confirm: true,
+        },
       });
     }
 
@@ -52,6 +52,24 @@ export const nextAsyncClientComponentRule: Rule = {
   id: "next-async-client-component",
   description: "Detects async client components, which are not allowed in React.",
   stack: ["nextjs", "vite", "auto"],
+  requires: ["nextjs-app-router", "nextjs-pages", "vite"],
+  scope: "file",
+  docs: {
+    rationale:
+      "React client components must render synchronously. An async component in a client bundle fails at runtime or silently renders nothing.",
+    bad: `"use client";
+export default async function Page() {
+  const data = await fetch("/api/items").then((r) => r.json());
+  return <List items={data} />;
+}`,
+    good: `"use client";
+export default function Page() {
+  const [data, setData] = useState([]);
+  useEffect(() => { fetch("/api/items").then((r) => r.json()).then(setData); }, []);
+  return <List items={data} />;
+}`,
+    defaultSeverity: "high",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
@@ -60,7 +78,7 @@ export const nextAsyncClientComponentRule: Rule = {
       const rp = rel(ctx, abs);
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
       if (!isClientComponent(code)) continue;
 
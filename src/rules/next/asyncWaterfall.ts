@@ -1,6 +1,6 @@
-import ts from "typescript";
-import type { Rule, Finding } from "../../engine/types.js";
+import type { Rule, Finding, Fix } from "../../engine/types.js";
 import { rel } from "../_shared.js";
+import { traverseAst } from "../../utils/traverse.js";
 
 function isCodeFile(p: string) {
   return /\.(ts|tsx|js|jsx)$/.test(p);
@@ -13,76 +13,156 @@ function isNextRouteHandler(relPath: string) {
   );
 }
 
-function walk(node: ts.Node, cb: (n: ts.Node) => void) {
-  cb(node);
-  node.forEachChild((child) => walk(child, cb));
+const LOOP_TYPES = [
+  "ForStatement",
+  "ForOfStatement",
+  "ForInStatement",
+  "WhileStatement",
+  "DoWhileStatement",
+];
+
+/**
+ * Finds the first `await` inside the node at `path` (the node itself included)
+ * and returns its `loc.start`, or null if none exist.
+ */
+function findFirstAwaitLoc(path: any): { line: number; column: number } | null {
+  if (path.node?.type === "AwaitExpression") return path.node.loc?.start ?? null;
+  let loc: { line: number; column: number } | null = null;
+  path.traverse({
+    AwaitExpression(p: any) {
+      loc = p.node.loc?.start ?? null;
+      p.stop();
+    },
+  });
+  return loc;
 }
 
-function isLoopStatement(n: ts.Node) {
+function isForEachCallee(callee: any) {
   return (
-    ts.isForStatement(n) ||
-    ts.isForOfStatement(n) ||
-    ts.isForInStatement(n) ||
-    ts.isWhileStatement(n) ||
-    ts.isDoStatement(n)
+    (callee?.type === "MemberExpression" ||
+      callee?.type === "OptionalMemberExpression") &&
+    !callee.computed &&
+    callee.property?.type === "Identifier" &&
+    callee.property.name === "forEach"
   );
 }
 
+// `total`, `this.items`, `rows[i].n`: the variable whose value a write changes
+function rootName(node: any): string | null {
+  if (node?.type === "Identifier") return node.name;
+  if (node?.type === "ThisExpression") return "this";
+  if (
+    node?.type === "MemberExpression" ||
+    node?.type === "OptionalMemberExpression"
+  )
+    return rootName(node.object);
+  return null;
+}
+
 /**
- * Finds the first `await` keyword inside `node` and returns its start position (character offset),
- * or null if none exist.
+ * Whether the loop body assigns to, updates or pushes onto a binding
+ * declared outside the loop (nested callbacks included). Run concurrently,
+ * `total += await f(x)` reads `total` before the await and loses updates,
+ * and `out.push(await f(x))` changes order.
  */
-function findFirstAwaitPos(node: ts.Node, sf: ts.SourceFile): number | null {
-  let pos: number | null = null;
-  walk(node, (n) => {
-    if (pos != null) return;
-    if (ts.isAwaitExpression(n)) {
-      pos = n.getStart(sf);
-    }
+function writesOuterBinding(path: any): boolean {
+  const loop = path.node;
+  const outer = (p: any, name: string | null) => {
+    if (!name) return false;
+    if (name === "this") return true;
+    const binding = p.scope.getBinding(name);
+    if (!binding) return true; // globals
+    const at = binding.path.node;
+    return at.start < loop.start || at.end > loop.end;
+  };
+  let writes = false;
+  const found = (p: any) => {
+    writes = true;
+    p.stop();
+  };
+  path.get("body").traverse({
+    AssignmentExpression(p: any) {
+      const left = p.get("left");
+      const names = left.isPattern()
+        ? Object.keys(left.getBindingIdentifiers())
+        : [rootName(left.node)];
+      if (names.some((n: string | null) => outer(p, n))) found(p);
+    },
+    UpdateExpression(p: any) {
+      if (outer(p, rootName(p.node.argument))) found(p);
+    },
+    CallExpression(p: any) {
+      const callee = p.node.callee;
+      if (
+        (callee.type === "MemberExpression" ||
+          callee.type === "OptionalMemberExpression") &&
+        !callee.computed &&
+        ["push", "unshift"].includes(callee.property?.name) &&
+        outer(p, rootName(callee.object))
+      )
+        found(p);
+    },
   });
-  return pos;
+  return writes;
 }
 
 /**
- * Detects `.forEach(async (...) => { await ... })` patterns (a common bug: async callback not awaited).
- * Returns the await position if found.
+ * `for (const x of xs) { ...await... }` ->
+ * `await Promise.all(Array.from(xs, async (x) => { ... }));`
+ * Only when the loop awaits directly, has no break/continue/return/yield
+ * (their meaning would change inside the callback) and doesn't write to
+ * variables declared outside it. Iterations then run concurrently, so the
+ * fix needs confirmation.
  */
-function findAsyncForEachAwaitPos(sf: ts.SourceFile): number | null {
-  let pos: number | null = null;
+function promiseAllFix(path: any, code: string): Fix | undefined {
+  const node = path.node;
+  if (node.type !== "ForOfStatement" || node.await) return undefined;
+  const decl = node.left;
+  if (
+    decl?.type !== "VariableDeclaration" ||
+    decl.declarations.length !== 1 ||
+    decl.declarations[0].init
+  )
+    return undefined;
 
-  walk(sf, (n) => {
-    if (pos != null) return;
-
-    // call expression like: something.forEach(...)
-    if (!ts.isCallExpression(n)) return;
-
-    // Callee should be a property access: x.forEach
-    const expr = n.expression;
-    if (!ts.isPropertyAccessExpression(expr)) return;
-    if (expr.name.getText(sf) !== "forEach") return;
-
-    // First arg should be a function
-    const arg0 = n.arguments[0];
-    if (!arg0) return;
-
-    const isAsyncFn =
-      (ts.isArrowFunction(arg0) || ts.isFunctionExpression(arg0)) &&
-      (arg0.modifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) ??
-        false);
-
-    if (!isAsyncFn) return;
-
-    const body = (arg0 as ts.ArrowFunction | ts.FunctionExpression).body;
-    const awaitPos = findFirstAwaitPos(body, sf);
-    if (awaitPos != null) pos = awaitPos;
+  let awaits = false;
+  let jumps = false;
+  path.get("body").traverse({
+    Function(p: any) {
+      p.skip();
+    },
+    AwaitExpression() {
+      awaits = true;
+    },
+    "BreakStatement|ContinueStatement|ReturnStatement|YieldExpression"(p: any) {
+      jumps = true;
+      p.stop();
+    },
   });
+  if (!awaits || jumps || writesOuterBinding(path)) return undefined;
 
-  return pos;
+  const src = (n: any) => code.slice(n.start, n.end);
+  const param = src(decl.declarations[0].id);
+  const body =
+    node.body.type === "BlockStatement"
+      ? src(node.body)
+      : `{ ${src(node.body)} }`;
+  return {
+    description: "Run the iterations concurrently with Promise.all",
+    edits: [
+      {
+        start: node.start,
+        end: node.end,
+        text: `await Promise.all(Array.from(${src(node.right)}, async (${param}) => ${body}));`,
+      },
+    ],
+    confirm: true,
+  };
 }
 
-function toLineCol(sf: ts.SourceFile, pos: number) {
-  const lc = sf.getLineAndCharacterOfPosition(pos);
-  return { line: lc.line + 1, col: lc.character + 1 };
+// Babel columns are 0-based; this rule has always reported 1-based columns.
+function toLineCol(loc: { line: number; column: number }) {
+  return { line: loc.line, col: loc.column + 1 };
 }
 
 export const nextAsyncWaterfallRule: Rule = {
@@ -90,6 +170,19 @@ export const nextAsyncWaterfallRule: Rule = {
   description:
     "Detect serial awaits inside loops (async waterfall) and async forEach footguns.",
   stack: ["nextjs", "auto"],
+  requires: ["nextjs-app-router", "nextjs-pages"],
+  scope: "file",
+  parallel: true,
+  version: 3,
+  docs: {
+    rationale:
+      "An await inside a loop runs the iterations one after another, so latency grows with the number of items. An async forEach callback is not awaited at all.",
+    bad: `for (const id of ids) {
+  results.push(await load(id));
+}`,
+    good: `const results = await Promise.all(ids.map((id) => load(id)));`,
+    defaultSeverity: "low",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
@@ -100,77 +193,58 @@ export const nextAsyncWaterfallRule: Rule = {
 
       if (isNextRouteHandler(rp)) continue;
 
-      const code = await ctx.readFile(abs);
-      if (!code) continue;
-
-      const scriptKind = rp.endsWith(".tsx")
-        ? ts.ScriptKind.TSX
-        : rp.endsWith(".jsx")
-          ? ts.ScriptKind.JSX
-          : rp.endsWith(".js")
-            ? ts.ScriptKind.JS
-            : ts.ScriptKind.TS;
-
-      let sf: ts.SourceFile;
-      try {
-        sf = ts.createSourceFile(
-          abs,
-          code,
-          ts.ScriptTarget.Latest,
-          true,
-          scriptKind,
-        );
-      } catch {
-        // If parsing fails, don't guess with regex; just skip to avoid false positives.
-        continue;
-      }
+      // Unparsable files are reported once by the engine (parse-error); skip here.
+      const ast = await ctx.getAst(abs);
+      if (!ast) continue;
+      const code = await ctx.getSource(abs);
 
-      // 1) Flag: await inside actual loop statements (for/while/do)
-      walk(sf, (n) => {
-        if (!isLoopStatement(n)) return;
-
-        // loop body:
-        const body = ts.isForStatement(n)
-          ? n.statement
-          : ts.isForOfStatement(n)
-            ? n.statement
-            : ts.isForInStatement(n)
-              ? n.statement
-              : ts.isWhileStatement(n)
-                ? n.statement
-                : ts.isDoStatement(n)
-                  ? n.statement
-                  : null;
-
-        if (!body) return;
-
-        const awaitPos = findFirstAwaitPos(body, sf);
-        if (awaitPos == null) return;
-
-        const { line, col } = toLineCol(sf, awaitPos);
-        out.push({
-          ruleId: "next-async-waterfall",
-          severity: "low",
-          file: abs,
-          line,
-          col,
-          message:
-            "Possible async waterfall: `await` used inside a loop (serial awaits).",
-          fixHint:
-            "Collect promises and `await Promise.all(...)` when safe, or batch operations to avoid serial async work.",
-        });
+      let asyncForEachAwait: { line: number; column: number } | null = null;
+
+      traverseAst(ast, {
+        // 1) Flag: await inside actual loop statements (for/while/do)
+        [LOOP_TYPES.join("|")](path: any) {
+          const awaitLoc = findFirstAwaitLoc(path.get("body"));
+          if (!awaitLoc) return;
+          const fix = promiseAllFix(path, code);
+
+          out.push({
+            ruleId: "next-async-waterfall",
+            severity: "low",
+            file: abs,
+            ...toLineCol(awaitLoc),
+            message:
+              "Possible async waterfall: `await` used inside a loop (serial awaits).",
+            fixHint:
+              "Collect promises and `await Promise.all(...)` when safe, or batch operations to avoid serial async work.",
+            ...(fix ? { fix } : {}),
+          });
+        },
+
+        // 2) Find: async forEach callback that awaits (common bug); first one per file
+        "CallExpression|OptionalCallExpression"(path: any) {
+          if (asyncForEachAwait) return;
+          if (!isForEachCallee(path.node.callee)) return;
+
+          const arg0 = path.get("arguments.0");
+          const fn = arg0?.node;
+          if (!fn) return;
+          if (
+            fn.type !== "ArrowFunctionExpression" &&
+            fn.type !== "FunctionExpression"
+          )
+            return;
+          if (!fn.async) return;
+
+          asyncForEachAwait = findFirstAwaitLoc(arg0.get("body"));
+        },
       });
 
-      // 2) Flag: async forEach callback that awaits (common bug)
-      const asyncForEachAwaitPos = findAsyncForEachAwaitPos(sf);
-      if (asyncForEachAwaitPos != null) {
-        const { line, col } = toLineCol(sf, asyncForEachAwaitPos);
+      if (asyncForEachAwait) {
         out.push({
           ruleId: "next-async-waterfall",
           severity: "low",
           file: abs,
-          line,
-          col,
+          ...toLineCol(asyncForEachAwait),
           message:
             "Possible async waterfall/bug: `await` inside an `async` forEach callback (forEach does not await).",
           fixHint:
@@ -11,6 +11,17 @@ export const nextClientEnvLeakRule: Rule = {
   description:
     "Client component references process.env (only warns on non-NEXT_PUBLIC env vars).",
   stack: ["nextjs", "auto"],
+  requires: ["nextjs-app-router", "nextjs-pages"],
+  scope: "file",
+  docs: {
+    rationale:
+      "Next.js inlines NEXT_PUBLIC_* variables into client bundles. Any other process.env lookup in a client component is either undefined in the browser or a secret that shouldn't be there.",
+    bad: `"use client";
+const key = process.env.STRIPE_SECRET_KEY;`,
+    good: `"use client";
+const key = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;`,
+    defaultSeverity: "info",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
@@ -19,7 +30,7 @@ export const nextClientEnvLeakRule: Rule = {
       const rp = rel(ctx, abs);
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
       if (!isClientComponent(code)) continue;
 
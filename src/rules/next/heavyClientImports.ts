@@ -7,13 +7,24 @@ export const nextHeavyClientImportsRule: Rule = {
   id: "next-heavy-client-imports",
   description: "Warn when heavy deps are imported in client components.",
   stack: ["nextjs", "auto"],
+  requires: ["nextjs-app-router", "nextjs-pages"],
+  scope: "file",
+  docs: {
+    rationale:
+      "Server SDKs such as aws-sdk, puppeteer, playwright and @prisma/client bloat client bundles and usually don't work in the browser.",
+    bad: `"use client";
+import { S3 } from "aws-sdk";`,
+    good: `// app/api/upload/route.ts (server)
+import { S3 } from "aws-sdk";`,
+    defaultSeverity: "info",
+  },
   async run(ctx) {
     const out: Finding[] = [];
     for (const abs of ctx.files) {
       const rp = rel(ctx, abs);
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       if (!code.includes('"use client"') && !code.includes("'use client'"))
@@ -5,6 +5,21 @@ export const nextMiddlewareMatcherCoverageRule: Rule = {
   id: "next-middleware-matcher-coverage",
   description: "Check that middleware matcher is defined (best-effort).",
   stack: ["nextjs", "auto"],
+  requires: ["nextjs-app-router", "nextjs-pages"],
+  scope: "file",
+  diffScope: "file",
+  docs: {
+    rationale:
+      "Without export const config.matcher, it's unclear which routes the middleware protects. Protected prefixes are easily left out as routes are added.",
+    bad: `export function middleware(req: NextRequest) {
+  return checkSession(req);
+}`,
+    good: `export function middleware(req: NextRequest) {
+  return checkSession(req);
+}
+export const config = { matcher: ["/dashboard/:path*", "/api/:path*"] };`,
+    defaultSeverity: "med",
+  },
   async run(ctx) {
     const out: Finding[] = [];
     for (const abs of ctx.files) {
@@ -12,7 +27,7 @@ export const nextMiddlewareMatcherCoverageRule: Rule = {
       if (!rp.endsWith("middleware.ts") && !rp.endsWith("middleware.js"))
         continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       if (!code.includes("export const config") || !code.includes("matcher")) {
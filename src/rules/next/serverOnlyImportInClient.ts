@@ -16,13 +16,25 @@ export const nextServerOnlyImportInClientRule: Rule = {
   description:
     "Warn when server-only modules are imported in client components.",
   stack: ["nextjs", "auto"],
+  requires: ["nextjs-app-router", "nextjs-pages"],
+  scope: "file",
+  docs: {
+    rationale:
+      "Modules such as server-only, next/headers, next/server, fs and crypto only work on the server. Importing them in a client component breaks the build or ships server code to the browser.",
+    bad: `"use client";
+import { cookies } from "next/headers";`,
+    good: `// app/actions.ts
+"use server";
+import { cookies } from "next/headers";`,
+    defaultSeverity: "info",
+  },
   async run(ctx) {
     const out: Finding[] = [];
     for (const abs of ctx.files) {
       const rp = rel(ctx, abs);
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       if (!code.includes('"use client"') && !code.includes("'use client'"))
@@ -1,5 +1,9 @@
 import type { Rule, Finding } from "../../engine/types.js";
 import { rel, firstLineCol } from "../_shared.js";
+import {
+  isSuppressed,
+  parseSuppressions,
+} from "../../engine/suppressions.js";
 
 /**
  * prisma-missing-tenant-filter (signal-focused)
@@ -14,8 +18,9 @@ import { rel, firstLineCol } from "../_shared.js";
  *    - Default calls: findMany/findFirst (findUnique is commonly safe w/ post-checks)
  *    - Severity for heuristics: INFO (you can change to LOW if you prefer)
  *
- * Suppression:
- *   Add `// vibecheck:tenant-ok` near the callsite to suppress tenant heuristic.
+ * Suppression (handled by the engine, see engine/suppressions.ts):
+ *   Add `// vibecheck:tenant-ok` near the callsite to suppress tenant heuristic,
+ *   or `// vibecheck-disable-next-line prisma-missing-tenant-filter -- reason`.
  */
 
 function isCodeFile(p: string) {
@@ -119,12 +124,6 @@ function extractWhereBlock(argObj: string): string | null {
   return null;
 }
 
-function hasSuppression(code: string, absIdx: number): boolean {
-  const start = Math.max(0, absIdx - 300);
-  const window = code.slice(start, absIdx);
-  return /vibecheck:tenant-ok/.test(window);
-}
-
 function whereHasTenantKey(whereBlock: string, tenantKeys: string[]): boolean {
   for (const key of tenantKeys) {
     const re = new RegExp(`\\b${key}\\b\\s*:`, "m");
@@ -138,11 +137,32 @@ export const prismaMissingTenantFilterRule: Rule = {
   description:
     "Flags Prisma usage in client components (HIGH) and heuristically warns on server reads missing tenant filters (INFO).",
   stack: ["nextjs", "vite", "nestjs", "auto"],
+  requires: ["prisma"],
+  scope: "file",
+  version: 3,
+  docs: {
+    rationale:
+      "In a multi-tenant app, a read without a tenant key in where can return other tenants' rows. Prisma in a client component is always reported (high). The tenant heuristic only looks at inline where objects in server paths and reports info.",
+    bad: `const projects = await prisma.project.findMany({
+  where: { archived: false },
+});`,
+    good: `const projects = await prisma.project.findMany({
+  where: { archived: false, orgId: session.orgId },
+});`,
+    defaultSeverity: "high",
+    configKeys: [
+      "tenantKeys",
+      "tenantReadOnlyPaths",
+      "tenantReadIgnore",
+      "tenantReadCalls",
+    ],
+    suppression: "// vibecheck:tenant-ok (just above the call)",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
 
-    const tenantKeys: string[] = (ctx.config as any)?.tenantKeys ?? [
+    const tenantKeys: string[] = ctx.config.tenantKeys ?? [
       "workspaceId",
       "orgId",
       "tenantId",
@@ -151,7 +171,7 @@ export const prismaMissingTenantFilterRule: Rule = {
     ];
 
     // Scan scope for tenant-filter heuristics (server-side patterns)
-    const onlyPaths: string[] = (ctx.config as any)?.tenantReadOnlyPaths ?? [
+    const onlyPaths: string[] = ctx.config.tenantReadOnlyPaths ?? [
       "app/api/",
       "lib/server/",
       "server/",
@@ -161,14 +181,14 @@ export const prismaMissingTenantFilterRule: Rule = {
       // "app/(server)/",
     ];
 
-    const ignorePaths: string[] = (ctx.config as any)?.tenantReadIgnore ?? [
+    const ignorePaths: string[] = ctx.config.tenantReadIgnore ?? [
       "**/node_modules/**",
       "**/.next/**",
       "**/dist/**",
     ];
 
     // Default calls (skipping findUnique to reduce false positives)
-    const calls: string[] = (ctx.config as any)?.tenantReadCalls ?? [
+    const calls: string[] = ctx.config.tenantReadCalls ?? [
       "findMany",
       "findFirst",
       // enable only if you really want it:
@@ -182,7 +202,7 @@ export const prismaMissingTenantFilterRule: Rule = {
       if (!isCodeFile(rp)) continue;
       if (simplePathMatch(rp, ignorePaths)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       // Quick path: if file doesn't mention prisma at all, skip everything
@@ -220,6 +240,7 @@ export const prismaMissingTenantFilterRule: Rule = {
       }
 
       let fileFindings = 0;
+      const directives = parseSuppressions(code);
 
       for (const c of calls) {
         if (fileFindings >= FILE_CAP) break;
@@ -228,9 +249,9 @@ export const prismaMissingTenantFilterRule: Rule = {
 
         for (const idx of idxs) {
           if (fileFindings >= FILE_CAP) break;
-          if (hasSuppression(code, idx)) continue;
 
-          const { text } = sliceAround(code, idx, 150, 6000);
+          // from the call site itself: the first "(" must be this call's
+          const { text } = sliceAround(code, idx, 0, 6000);
 
           const argObj = extractInlineFirstArgObject(text);
           if (!argObj) continue;
@@ -240,17 +261,20 @@ export const prismaMissingTenantFilterRule: Rule = {
 
           if (whereHasTenantKey(whereBlock, tenantKeys)) continue;
 
-          out.push({
+          const finding: Finding = {
             ruleId: "prisma-missing-tenant-filter",
             severity: "info",
             file: abs,
             ...firstLineCol(code, idx),
+            heuristic: true,
             message: `Prisma ${c}() has a where: but does not mention tenant/workspace/org constraints (heuristic).`,
             fixHint:
               "If this is multi-tenant data, add tenant/workspace/org keys to `where`, enforce via middleware, or suppress with `// vibecheck:tenant-ok` if safe by design.",
-          });
+          };
+          out.push(finding);
 
-          fileFindings++;
+          // The engine drops suppressed findings later; they don't count toward the cap.
+          if (!isSuppressed(directives, finding, ctx.config)) fileFindings++;
         }
       }
     }
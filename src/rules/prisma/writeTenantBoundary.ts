@@ -1,5 +1,9 @@
 import type { Rule, Finding } from "../../engine/types.js";
 import { rel, firstLineCol } from "../_shared.js";
+import {
+  isSuppressed,
+  parseSuppressions,
+} from "../../engine/suppressions.js";
 
 /**
  * prisma-write-tenant-boundary (ultra low-noise)
@@ -104,12 +108,6 @@ function extractWhereBlock(argObj: string): string | null {
   return null;
 }
 
-function hasSuppression(code: string, absIdx: number): boolean {
-  const start = Math.max(0, absIdx - 300);
-  const window = code.slice(start, absIdx);
-  return /vibecheck:tenant-ok/.test(window);
-}
-
 function whereHasTenantKey(whereBlock: string, tenantKeys: string[]): boolean {
   for (const key of tenantKeys) {
     const re = new RegExp(`\\b${key}\\b\\s*:`, "m");
@@ -131,11 +129,25 @@ export const prismaWriteTenantBoundaryRule: Rule = {
   description:
     "Detect Prisma updateMany/deleteMany that may be missing tenant/workspace/org constraints (low-noise).",
   stack: ["nextjs", "auto"],
+  requires: ["prisma"],
+  scope: "file",
+  version: 3,
+  docs: {
+    rationale:
+      "updateMany and deleteMany without a tenant key in where can modify every tenant's rows in one call. Prisma in a client component is always reported (high); the bulk-write heuristic reports info.",
+    bad: `await prisma.invite.deleteMany({ where: { expired: true } });`,
+    good: `await prisma.invite.deleteMany({
+  where: { expired: true, workspaceId },
+});`,
+    defaultSeverity: "high",
+    configKeys: ["tenantKeys", "tenantBoundaryOnly", "tenantBoundaryIgnore"],
+    suppression: "// vibecheck:tenant-ok (just above the call)",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
 
-    const tenantKeys: string[] = (ctx.config as any)?.tenantKeys ?? [
+    const tenantKeys: string[] = ctx.config.tenantKeys ?? [
       "workspaceId",
       "orgId",
       "tenantId",
@@ -144,14 +156,14 @@ export const prismaWriteTenantBoundaryRule: Rule = {
     ];
 
     // Default: only scan server-ish areas for the heuristic.
-    const onlyPaths: string[] = (ctx.config as any)?.tenantBoundaryOnly ?? [
+    const onlyPaths: string[] = ctx.config.tenantBoundaryOnly ?? [
       "app/api/",
       "lib/server/",
       "server/",
       "prisma/",
     ];
 
-    const ignorePaths: string[] = (ctx.config as any)?.tenantBoundaryIgnore ?? [
+    const ignorePaths: string[] = ctx.config.tenantBoundaryIgnore ?? [
       "**/node_modules/**",
       "**/.next/**",
       "**/dist/**",
@@ -162,7 +174,7 @@ export const prismaWriteTenantBoundaryRule: Rule = {
       if (!isCodeFile(rp)) continue;
       if (simplePathMatch(rp, ignorePaths)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       // If this is a client component and it references prisma at all => HIGH
@@ -195,6 +207,7 @@ export const prismaWriteTenantBoundaryRule: Rule = {
       // Cap findings per file to keep output tight
       let fileFindings = 0;
       const FILE_CAP = 6;
+      const directives = parseSuppressions(code);
 
       for (const c of calls) {
         if (fileFindings >= FILE_CAP) break;
@@ -203,9 +216,9 @@ export const prismaWriteTenantBoundaryRule: Rule = {
 
         for (const idx of idxs) {
           if (fileFindings >= FILE_CAP) break;
-          if (hasSuppression(code, idx)) continue;
 
-          const { text } = sliceAround(code, idx, 200, 5000);
+          // from the call site itself: the first "(" must be this call's
+          const { text } = sliceAround(code, idx, 0, 5000);
 
           // Only analyze if first arg is inline object: updateMany({ where: ... })
           const argObj = extractInlineFirstArgObject(text);
@@ -217,16 +230,19 @@ export const prismaWriteTenantBoundaryRule: Rule = {
 
           if (whereHasTenantKey(whereBlock, tenantKeys)) continue;
 
-          out.push({
+          const finding: Finding = {
             ruleId: "prisma-write-tenant-boundary",
             severity: c.severity,
             file: abs,
             ...firstLineCol(code, idx),
+            heuristic: true,
             message: `Prisma ${c.name}() is missing tenant/workspace/org keys in \`where\` (high-risk operation).`,
             fixHint:
               "For updateMany/deleteMany ensure `where` includes tenant/workspace/org constraints, or add `// vibecheck:tenant-ok` above if intentionally global.",
-          });
-          fileFindings++;
+          };
+          out.push(finding);
+          // The engine drops suppressed findings later; they don't count toward the cap.
+          if (!isSuppressed(directives, finding, ctx.config)) fileFindings++;
         }
       }
     }
@@ -12,13 +12,26 @@ export const corsWildcardCredentialsRule: Rule = {
   description:
     "Detect CORS config that uses wildcard origin with credentials=true.",
   stack: ["nextjs", "vite", "nestjs", "auto"],
+  scope: "file",
+  docs: {
+    rationale:
+      "Browsers reject Access-Control-Allow-Origin: * on credentialed requests. Code that combines the two is usually \"fixed\" by reflecting any Origin, which lets every site make authenticated requests.",
+    bad: `headers.set("Access-Control-Allow-Origin", "*");
+headers.set("Access-Control-Allow-Credentials", "true");`,
+    good: `if (ALLOWED_ORIGINS.includes(origin)) {
+  headers.set("Access-Control-Allow-Origin", origin);
+  headers.set("Access-Control-Allow-Credentials", "true");
+  headers.set("Vary", "Origin");
+}`,
+    defaultSeverity: "high",
+  },
   async run(ctx) {
     const out: Finding[] = [];
     for (const abs of ctx.files) {
       const rp = rel(ctx, abs);
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       const idxOrigin = code.indexOf("Access-Control-Allow-Origin");
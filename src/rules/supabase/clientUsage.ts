@@ -34,6 +34,17 @@ export const supabaseClientUsageRule: Rule = {
   description:
     "Supabase client should only be used in server-side code, not in 'use client' components.",
   stack: ["nextjs", "auto"],
+  requires: ["supabase"],
+  scope: "file",
+  docs: {
+    rationale:
+      "Queries issued from a client component run with whatever key the browser holds. Access control then depends entirely on RLS policies, and the query logic is visible to users.",
+    bad: `"use client";
+import { createClient } from "@supabase/supabase-js";`,
+    good: `// app/api/profile/route.ts (server)
+import { createClient } from "@supabase/supabase-js";`,
+    defaultSeverity: "high",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
@@ -42,7 +53,7 @@ export const supabaseClientUsageRule: Rule = {
       const rp = rel(ctx, abs);
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
       if (!isClientComponent(code)) continue;
 
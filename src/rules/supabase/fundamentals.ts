@@ -35,6 +35,18 @@ export const supabaseFundamentalsRule: Rule = {
   description:
     "Checks for proper Supabase client setup and security fundamentals.",
   stack: ["nextjs", "vite", "nestjs", "auto"],
+  requires: ["supabase"],
+  scope: "file",
+  docs: {
+    rationale:
+      "A hardcoded Supabase URL or key ends up in version control and can't be rotated per environment. Any reference to the service role key in a file using supabase-js is reported as a blocker.",
+    bad: `const supabase = createClient("https://abc.supabase.co", "eyJhbGciOi...");`,
+    good: `const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+);`,
+    defaultSeverity: "blocker",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
@@ -43,7 +55,7 @@ export const supabaseFundamentalsRule: Rule = {
       const rp = rel(ctx, abs);
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       if (!hasSupabaseImport(code)) continue;
@@ -1,11 +1,41 @@
-import type { Rule, Finding } from "../../engine/types.js";
+import type { Rule, Finding, Fix } from "../../engine/types.js";
 import { rel, firstLineCol } from "../_shared.js";
 
+// Appends the statement at the end of the file (after the CREATE TABLE).
+// `table` is the identifier as written there: "User" stays quoted (unquoted
+// names fold to lower case, and some are reserved words).
+function enableRlsFix(content: string, table: string): Fix {
+  const sep = content.endsWith("\n") ? "" : "\n";
+  return {
+    description: `Enable RLS on ${table}`,
+    edits: [
+      {
+        start: content.length,
+        end: content.length,
+        text: `${sep}ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;\n`,
+      },
+    ],
+  };
+}
+
 export const supabaseRLSValidationRule: Rule = {
   id: "supabase-rls-validation",
   description:
     "Checks that Row Level Security is properly enabled on database tables.",
   stack: ["nextjs", "vite", "nestjs", "auto"],
+  requires: ["supabase"],
+  scope: "file",
+  diffScope: "file",
+  version: 3,
+  docs: {
+    rationale:
+      "Tables without Row Level Security are readable and writable by anyone holding the anon key. Checked in .sql and .prisma files. Tables that look like user data (users, profiles, accounts, sessions, ...) are reported as blockers.",
+    bad: `CREATE TABLE profiles (id uuid primary key, email text);`,
+    good: `CREATE TABLE profiles (id uuid primary key, email text);
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "own profile" ON profiles FOR SELECT USING (auth.uid() = id);`,
+    defaultSeverity: "blocker",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
@@ -16,7 +46,7 @@ export const supabaseRLSValidationRule: Rule = {
       // Check SQL files, migration files, and schema files
       if (!/\.(sql|prisma)$/.test(rp)) continue;
 
-      const content = await ctx.readFile(abs);
+      const content = await ctx.getSource(abs);
       if (!content) continue;
 
       // Find all CREATE TABLE statements
@@ -50,7 +80,7 @@ export const supabaseRLSValidationRule: Rule = {
         if (!rlsEnabledRegex.test(content)) {
           // Find the CREATE TABLE statement position for this table
           const tableRegex = new RegExp(
-            `CREATE\\s+TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?["\`]?${tableName}["\`]?\\s*\\(`,
+            `CREATE\\s+TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(["\`]?${tableName}["\`]?)\\s*\\(`,
             'gi'
           );
           const tableMatch = tableRegex.exec(content);
@@ -62,7 +92,8 @@ export const supabaseRLSValidationRule: Rule = {
               file: abs,
               ...firstLineCol(content, tableMatch.index),
               message: `Table '${tableName}' does not have Row Level Security enabled. This may expose sensitive data.`,
-              fixHint: `Add 'ALTER TABLE ${tableName} ENABLE ROW LEVEL SECURITY;' and create appropriate RLS policies using auth.uid() and auth.jwt().`,
+              fixHint: `Add 'ALTER TABLE ${tableMatch[1]} ENABLE ROW LEVEL SECURITY;' and create appropriate RLS policies using auth.uid() and auth.jwt().`,
+              fix: enableRlsFix(content, tableMatch[1]),
             });
           }
         }
@@ -91,7 +122,7 @@ export const supabaseRLSValidationRule: Rule = {
 
           if (!rlsEnabledRegex.test(content)) {
             const tableRegex = new RegExp(
-              `CREATE\\s+TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?["\`]?${tableName}["\`]?\\s*\\(`,
+              `CREATE\\s+TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(["\`]?${tableName}["\`]?)\\s*\\(`,
               'gi'
             );
             const tableMatch = tableRegex.exec(content);
@@ -103,7 +134,8 @@ export const supabaseRLSValidationRule: Rule = {
                 file: abs,
                 ...firstLineCol(content, tableMatch.index),
                 message: `User data table '${tableName}' does not have Row Level Security enabled. This is a critical security vulnerability.`,
-                fixHint: `Immediately enable RLS with 'ALTER TABLE ${tableName} ENABLE ROW LEVEL SECURITY;' and create policies restricting access to authenticated users only.`,
+                fixHint: `Immediately enable RLS with 'ALTER TABLE ${tableMatch[1]} ENABLE ROW LEVEL SECURITY;' and create policies restricting access to authenticated users only.`,
+                fix: enableRlsFix(content, tableMatch[1]),
               });
             }
           }
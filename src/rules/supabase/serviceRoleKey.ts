@@ -1,5 +1,5 @@
-import type { Rule, Finding } from "../../engine/types.js";
-import { rel, firstLineCol } from "../_shared.js";
+import type { Rule, Finding, Fix } from "../../engine/types.js";
+import { rel, firstLineCol, prologueEnd } from "../_shared.js";
 
 function isClientComponent(code: string) {
   const head = code.slice(0, 250);
@@ -20,14 +20,63 @@ function isClientSideFile(filePath: string) {
   return clientPatterns.some(pattern => pattern.test(filePath));
 }
 
+function isServerActionFile(code: string) {
+  const head = code.slice(0, 250);
+  return /(^|\n)\s*["']use server["']\s*;?\s*(\n|$)/.test(head);
+}
+
+// Files that only run on the server, so `import "server-only"` can't break a
+// client bundle: route handlers, "use server" modules, and lib/ or server/
+// modules outside the client-looking paths.
+function isServerFile(code: string, filePath: string) {
+  const p = `/${filePath}`;
+  if (/\/app\/(?:.*\/)?route\.[jt]s$/.test(p)) return true;
+  if (isServerActionFile(code)) return true;
+  if (isClientComponent(code) || isClientSideFile(p)) return false;
+  return /\/(lib|server)\//.test(p);
+}
+
+// Server modules that touch the key get `import "server-only"` so a client
+// import fails the build. Next.js only: elsewhere the package isn't there.
+// Client-path findings keep just the fixHint: the import would break them.
+function serverOnlyFix(
+  code: string,
+  filePath: string,
+  next: boolean,
+): Fix | undefined {
+  if (!next || !isServerFile(code, filePath)) return undefined;
+  if (/import\s+["']server-only["']/.test(code)) return undefined;
+  const at = prologueEnd(code);
+  return {
+    description: 'Add import "server-only"',
+    edits: [{ start: at, end: at, text: 'import "server-only";\n' }],
+  };
+}
+
 export const supabaseServiceRoleKeyRule: Rule = {
   id: "supabase-service-role-key",
   description:
     "Detects exposure of Supabase service role keys in client-side code.",
   stack: ["nextjs", "vite", "nestjs", "auto"],
+  requires: ["supabase"],
+  scope: "file",
+  version: 4,
+  docs: {
+    rationale:
+      "The service role key bypasses RLS. In client-side code (\"use client\", pages/, components/, app/ or *.client.* files) it is a blocker; server-side uses are reported high so they get reviewed.",
+    bad: `"use client";
+const admin = createClient(url, process.env.SUPABASE_SERVICE_ROLE_KEY!);`,
+    good: `// lib/server/admin.ts
+import "server-only";
+const admin = createClient(url, process.env.SUPABASE_SERVICE_ROLE_KEY!);`,
+    defaultSeverity: "blocker",
+  },
 
   async run(ctx) {
     const out: Finding[] = [];
+    const next = ctx.repo.capabilities.some(
+      (c) => c === "nextjs-app-router" || c === "nextjs-pages",
+    );
 
     for (const abs of ctx.files) {
       const rp = rel(ctx, abs);
@@ -35,7 +84,7 @@ export const supabaseServiceRoleKeyRule: Rule = {
       // Check JavaScript/TypeScript files
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       // Check for service role key patterns
@@ -59,6 +108,7 @@ export const supabaseServiceRoleKeyRule: Rule = {
         /\bSUPABASE_SERVICE\b/g,
       ];
 
+      const fix = serverOnlyFix(code, rp, next);
       let foundServiceKeyUsage = false;
       let severity: "blocker" | "high" = "high";
       let message = "";
@@ -93,6 +143,7 @@ export const supabaseServiceRoleKeyRule: Rule = {
               ...firstLineCol(code, index),
               message,
               fixHint,
+              ...(fix ? { fix } : {}),
             });
 
             // Limit to 3 findings per file to avoid spam
@@ -124,6 +175,7 @@ export const supabaseServiceRoleKeyRule: Rule = {
                   ...firstLineCol(code, index),
                   message: "Potential service role key usage in createClient call.",
                   fixHint: "Verify that this key is not a service role key. Service role keys should never be used in client-side createClient calls.",
+                  ...(fix ? { fix } : {}),
                 });
               }
             }
@@ -5,13 +5,22 @@ export const viteClientEnvLeakRule: Rule = {
   id: "vite-client-env-leak",
   description: "Warn if non-VITE_ env vars are referenced in client code.",
   stack: ["vite", "auto"],
+  requires: ["vite"],
+  scope: "file",
+  docs: {
+    rationale:
+      "Vite only exposes VITE_* variables on import.meta.env. Other names are undefined in the browser, and renaming a secret to make it work leaks it.",
+    bad: `const url = import.meta.env.DATABASE_URL;`,
+    good: `const url = import.meta.env.VITE_API_URL;`,
+    defaultSeverity: "info",
+  },
   async run(ctx) {
     const out: Finding[] = [];
     for (const abs of ctx.files) {
       const rp = rel(ctx, abs);
       if (!/\.(ts|tsx|js|jsx)$/.test(rp)) continue;
 
-      const code = await ctx.readFile(abs);
+      const code = await ctx.getSource(abs);
       if (!code) continue;
 
       // Vite: import.meta.env.* is the typical pattern
@@ -0,0 +1,215 @@
+import path from "node:path";
+import { existsSync } from "node:fs";
+
+import type {
+  CheckerConfig,
+  DetectedCapability,
+  Finding,
+  PackageSummary,
+  Rule,
+  Severity,
+  StackName,
+} from "./engine/types.js";
+import type { ConfigIssue } from "./engine/configSchema.js";
+import { discoverFiles } from "./scanner/discoverFiles.js";
+import { detectRepo } from "./scanner/repoDetect.js";
+import {
+  resolveCapabilities,
+  stackFromCapabilities,
+} from "./scanner/capabilities.js";
+import { configuredWorkspaces, splitScanUnits } from "./scanner/workspaces.js";
+import {
+  getChangeSet,
+  type ChangeKind,
+  type ChangeSet,
+} from "./scanner/changedFiles.js";
+import { filterToChangedLines } from "./engine/diffFilter.js";
+import { loadConfigWithSources } from "./engine/configLoader.js";
+import { runScanUnits, summarizePackages } from "./engine/workspaces.js";
+import { defaultJobs } from "./engine/parallel.js";
+import type { RuleProfile } from "./engine/profile.js";
+import { createScanCache } from "./engine/scanCache.js";
+import { createSourceCache } from "./engine/sourceCache.js";
+import { summarize } from "./engine/report.js";
+import {
+  diffBaseline,
+  loadBaseline,
+  type SourceReader,
+} from "./engine/baseline.js";
+import { filterFindings, type FilteredReport } from "./engine/outputFilter.js";
+
+/**
+ * Library entry point behind `vibecheck scan` / `vibecheck ci`: config,
+ * changed-files filter, rules, --diff-lines, baseline and output filtering.
+ * Prints nothing; throws ConfigError (bad config) or ChangeSetError (git
+ * can't answer a changed-files question).
+ */
+
+export interface ScanOptions {
+  /** Repo root (default: process.cwd()). */
+  rootDir?: string;
+  /** Overrides on top of vibecheck.json, like CLI flags (stack, auth, ruleOverrides, output). */
+  config?: Partial<CheckerConfig>;
+  /** Only scan changed files: true for staged, unstaged and untracked, or a subset. */
+  changed?: boolean | ChangeKind[];
+  /** Only scan files changed since this git ref. */
+  since?: string;
+  /** Resolve `since` through its merge-base with HEAD (`ci --base`). */
+  mergeBase?: boolean;
+  /** Only report findings on added/modified lines (implies a change set). */
+  diffLines?: boolean;
+  /** Baseline file (resolved against process.cwd()); matched findings are split out. */
+  baseline?: string;
+  /** Worker threads for `parallel` rules (default: defaultJobs()). */
+  jobs?: number;
+  /** Read and write .vibecheck/cache.json (default true). */
+  cache?: boolean;
+}
+
+export interface ScanResult {
+  rootDir: string;
+  /** Stack of the repo root (packages have their own, see `packages`). */
+  stack: StackName;
+  /** Capabilities of the repo root, and why (config `stack` / `capabilities` applied). */
+  capabilities: DetectedCapability[];
+  config: CheckerConfig;
+  /** Config file used, if any. */
+  configFile: string | null;
+  /** Non-fatal config schema issues. */
+  warnings: ConfigIssue[];
+  /** Files scanned (after the changed-files filter). */
+  files: string[];
+  /** Workspace packages with files in this scan, then "(root)"; empty outside monorepos. */
+  packages: PackageSummary[];
+  /** True when a change set was used (`changed`, `since` or `diffLines`). */
+  changedOnly: boolean;
+  /** Rules that ran (or were served from the cache), in any package. */
+  rules: Rule[];
+  /** Reported findings: after --diff-lines, the baseline and output filtering. */
+  findings: Finding[];
+  /** Findings before output filtering (after --diff-lines and the baseline). */
+  unfiltered: Finding[];
+  summary: Record<Severity, number>;
+  /** What output filtering hid (output.minSeverity / maxFindingsPerRule). */
+  report: FilteredReport;
+  baseline?: {
+    path: string;
+    /** False when the file doesn't exist (every finding counts as new). */
+    found: boolean;
+    /** Findings matched by the baseline (output filtering applied). */
+    baselined: Finding[];
+    /** Baselined findings in scanned files that are gone. */
+    fixed: number;
+  };
+  profile: RuleProfile[];
+  startedAt: Date;
+  durationMs: number;
+  /** Memoized reader for scanned files (formatters use it for snippets). */
+  getSource: SourceReader;
+}
+
+export async function scan(options: ScanOptions = {}): Promise<ScanResult> {
+  const rootDir = path.resolve(process.cwd(), options.rootDir ?? ".");
+  const t0 = performance.now();
+  const startedAt = new Date();
+
+  const { repo, deps } = await detectRepo(rootDir);
+  const loaded = await loadConfigWithSources(
+    rootDir,
+    options.config ?? {},
+    deps,
+  );
+  const { config } = loaded;
+
+  // Changed-code mode: no fallback to a full scan if git can't answer
+  let changes: ChangeSet | null = null;
+  if (options.changed || options.since || options.diffLines) {
+    changes = await getChangeSet(rootDir, {
+      kinds: Array.isArray(options.changed) ? options.changed : undefined,
+      since: options.since,
+      mergeBase: options.mergeBase,
+    });
+  }
+
+  const allFiles = await discoverFiles(rootDir, config);
+  const files = changes
+    ? allFiles.filter((f) => changes.has(path.resolve(f)))
+    : allFiles;
+
+  const capabilities = resolveCapabilities(repo.capabilities, config);
+  const stack = stackFromCapabilities(capabilities.map((c) => c.capability));
+
+  // Monorepos: one rule run per workspace package, with its own capabilities
+  const packages = await configuredWorkspaces(rootDir, config);
+  const units = splitScanUnits(repo, files, packages, config);
+  const sources = createSourceCache(config.maxFileBytes);
+  const runs = await runScanUnits(units, {
+    repoRoot: rootDir,
+    config,
+    extraRules: loaded.rules,
+    sources,
+    jobs: options.jobs ?? defaultJobs(),
+    cache:
+      options.cache !== false
+        ? (unit) => createScanCache(rootDir, unit.package?.path)
+        : undefined,
+  });
+  let findings = runs.flatMap((r) => r.findings);
+  const profile = runs.flatMap((r) => r.profile);
+  const rules = [
+    ...new Map(runs.flatMap((r) => r.rules).map((r) => [r.id, r])).values(),
+  ];
+
+  if (options.diffLines && changes)
+    findings = filterToChangedLines(
+      findings,
+      changes,
+      rules,
+      rootDir,
+      units.map((u) => u.rootDir),
+    );
+
+  let baseline: ScanResult["baseline"];
+  if (options.baseline) {
+    const baselinePath = path.resolve(process.cwd(), options.baseline);
+    const diff = await diffBaseline(
+      findings,
+      await loadBaseline(baselinePath),
+      rootDir,
+      sources.getSource,
+      files,
+    );
+    findings = diff.introduced;
+    baseline = {
+      path: baselinePath,
+      found: existsSync(baselinePath),
+      baselined: filterFindings(diff.baselined, config.output).findings,
+      fixed: diff.fixed.reduce((n, e) => n + e.count, 0),
+    };
+  }
+
+  const report = filterFindings(findings, config.output);
+  const ran = new Set(profile.map((r) => r.ruleId));
+
+  return {
+    rootDir,
+    stack,
+    capabilities,
+    config,
+    configFile: loaded.file,
+    warnings: loaded.warnings,
+    files,
+    packages: summarizePackages(units, report.findings),
+    changedOnly: Boolean(changes),
+    rules: rules.filter((r) => ran.has(r.id)),
+    findings: report.findings,
+    unfiltered: findings,
+    summary: summarize(report.findings),
+    report,
+    baseline,
+    profile,
+    startedAt,
+    durationMs: performance.now() - t0,
+    getSource: sources.getSource,
+  };
+}
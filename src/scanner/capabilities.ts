@@ -0,0 +1,177 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import type {
+  AuthKind,
+  Capability,
+  CheckerConfig,
+  DetectedCapability,
+  StackName,
+} from "../engine/types.js";
+
+/**
+ * Capability detection: what a repo (or workspace package) is built with,
+ * from package.json dependencies, framework config files and schema files.
+ * Rules declare the capabilities they need (Rule.requires); the primary
+ * StackName is derived from the framework capabilities.
+ */
+
+export const CAPABILITIES: Capability[] = [
+  "nextjs-app-router",
+  "nextjs-pages",
+  "vite",
+  "nestjs",
+  "prisma",
+  "supabase",
+  "drizzle",
+  "nextauth",
+  "clerk",
+  "betterauth",
+];
+
+const FRAMEWORKS: Capability[] = [
+  "nextjs-app-router",
+  "nextjs-pages",
+  "vite",
+  "nestjs",
+];
+
+const STACK_CAPABILITIES: Record<Exclude<StackName, "auto">, Capability[]> = {
+  nextjs: ["nextjs-app-router", "nextjs-pages"],
+  vite: ["vite"],
+  nestjs: ["nestjs"],
+};
+
+// Dependency names (exact, or a prefix ending in "/") per capability
+const DEPENDENCIES: Partial<Record<Capability, string[]>> = {
+  vite: ["vite"],
+  nestjs: ["@nestjs/core"],
+  prisma: ["prisma", "@prisma/client"],
+  supabase: [
+    "@supabase/supabase-js",
+    "@supabase/ssr",
+    "@supabase/auth-helpers-nextjs",
+  ],
+  drizzle: ["drizzle-orm", "drizzle-kit"],
+  nextauth: ["next-auth", "@auth/core"],
+  clerk: ["@clerk/"],
+  betterauth: ["better-auth"],
+};
+
+const FILES: Partial<Record<Capability, string[]>> = {
+  vite: ["vite.config.ts", "vite.config.js", "vite.config.mjs"],
+  nestjs: ["nest-cli.json"],
+  prisma: ["prisma/schema.prisma", "schema.prisma", "prisma/schema"],
+  supabase: ["supabase/config.toml", "supabase/migrations"],
+  drizzle: ["drizzle.config.ts", "drizzle.config.js", "drizzle.config.mjs"],
+};
+
+const NEXT_CONFIGS = ["next.config.js", "next.config.mjs", "next.config.ts"];
+
+const AUTH_KINDS: [Capability, AuthKind][] = [
+  ["nextauth", "nextauth"],
+  ["clerk", "clerk"],
+  ["betterauth", "betterauth"],
+];
+
+function depsMatching(deps: Record<string, string>, names: string[]): string[] {
+  return Object.keys(deps).filter((d) =>
+    names.some((n) => (n.endsWith("/") ? d.startsWith(n) : d === n)),
+  );
+}
+
+/** Capabilities of the project at `rootDir` (no config applied). */
+export function detectCapabilities(
+  rootDir: string,
+  deps: Record<string, string>,
+): DetectedCapability[] {
+  const found = new Map<Capability, string[]>();
+  const add = (c: Capability, reason: string) =>
+    found.set(c, [...(found.get(c) ?? []), reason]);
+  const has = (rel: string) => existsSync(path.join(rootDir, rel));
+
+  // Next.js: the dependency or a next.config, plus the router directories
+  const nextEvidence = [
+    ...(deps.next ? ["dependency next"] : []),
+    ...NEXT_CONFIGS.filter(has),
+  ];
+  const appDir = ["app", "src/app"].find(has);
+  const pagesDir = ["pages", "src/pages"].find(has);
+  // a top-level app/ is enough on its own (stack detection always did that)
+  if (appDir && (nextEvidence.length || appDir === "app"))
+    add("nextjs-app-router", `${appDir}/ directory`);
+  if (nextEvidence.length && pagesDir)
+    add("nextjs-pages", `${pagesDir}/ directory`);
+  if (nextEvidence.length && !found.has("nextjs-app-router") && !pagesDir)
+    add("nextjs-app-router", "no app/ or pages/ yet (default router)");
+  for (const c of ["nextjs-app-router", "nextjs-pages"] as const) {
+    if (found.has(c)) found.set(c, [...nextEvidence, ...found.get(c)!]);
+  }
+
+  for (const c of CAPABILITIES) {
+    for (const dep of depsMatching(deps, DEPENDENCIES[c] ?? []))
+      add(c, `dependency ${dep}`);
+    for (const file of (FILES[c] ?? []).filter(has)) add(c, file);
+  }
+
+  // src/main.ts alone is a NestJS hint only when nothing else claims the repo
+  if (!FRAMEWORKS.some((c) => found.has(c)) && has("src/main.ts"))
+    add("nestjs", "src/main.ts");
+
+  return CAPABILITIES.filter((c) => found.has(c)).map((c) => ({
+    capability: c,
+    reasons: found.get(c)!,
+  }));
+}
+
+/**
+ * Apply config on top of detection: an explicit `stack` replaces the
+ * detected framework capabilities, and `capabilities` forces some on or off.
+ */
+export function resolveCapabilities(
+  detected: DetectedCapability[],
+  config: Pick<CheckerConfig, "stack" | "capabilities">,
+): DetectedCapability[] {
+  let out = detected;
+  if (config.stack && config.stack !== "auto") {
+    out = [
+      ...STACK_CAPABILITIES[config.stack].map((capability) => ({
+        capability,
+        reasons: [`forced stack "${config.stack}"`],
+      })),
+      ...out.filter((d) => !FRAMEWORKS.includes(d.capability)),
+    ];
+  }
+  for (const [c, on] of Object.entries(config.capabilities ?? {})) {
+    const capability = c as Capability;
+    out = out.filter((d) => d.capability !== capability);
+    if (on) out.push({ capability, reasons: ["capabilities in config"] });
+  }
+  return CAPABILITIES.flatMap((c) => out.filter((d) => d.capability === c));
+}
+
+/** The primary stack for a capability set (Next.js, then Vite, then NestJS). */
+export function stackFromCapabilities(caps: Capability[]): StackName {
+  if (caps.includes("nextjs-app-router") || caps.includes("nextjs-pages"))
+    return "nextjs";
+  if (caps.includes("vite")) return "vite";
+  if (caps.includes("nestjs")) return "nestjs";
+  return "auto";
+}
+
+/** `auth: "auto"`: the auth library among the dependencies, if exactly one. */
+export function authKindFromDeps(
+  deps: Record<string, string>,
+): AuthKind | null {
+  const kinds = AUTH_KINDS.filter(
+    ([c]) => depsMatching(deps, DEPENDENCIES[c] ?? []).length,
+  );
+  return kinds.length === 1 ? kinds[0][1] : null;
+}
+
+/** "nextjs-app-router (dependency next, app/ directory), prisma (...)" */
+export function formatCapabilities(caps: DetectedCapability[]): string {
+  if (!caps.length) return "none detected";
+  return caps
+    .map((d) => `${d.capability} (${d.reasons.join(", ")})`)
+    .join(", ");
+}
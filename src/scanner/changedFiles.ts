@@ -1,13 +1,169 @@
-import { execSync } from "node:child_process";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
 
-export async function getChangedFiles(rootDir: string): Promise<string[] | null> {
+/**
+ * Changed-code model for --changed / --since / ci --base.
+ *
+ * A ChangeSet maps each changed file (absolute path) to the added or modified
+ * line numbers in its working-tree version, or "all" for untracked files.
+ * A file with only deletions is present with an empty set: it still counts as
+ * touched for file-level findings.
+ */
+
+export type ChangedLines = Set<number> | "all";
+export type ChangeSet = Map<string, ChangedLines>;
+
+export type ChangeKind = "staged" | "unstaged" | "untracked";
+export const CHANGE_KINDS: ChangeKind[] = ["staged", "unstaged", "untracked"];
+
+export interface ChangeSetOptions {
+  /** Working-tree changes to include (default: all three). Ignored with `since`, except untracked. */
+  kinds?: ChangeKind[];
+  /** Diff the working tree against this ref instead of HEAD / the index. */
+  since?: string;
+  /** Diff against the merge-base of `since` and HEAD (what a PR shows). */
+  mergeBase?: boolean;
+}
+
+function git(rootDir: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd: rootDir,
+    stdio: ["ignore", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  }).toString();
+}
+
+function gitError(e: any): string {
+  return String(e?.stderr ?? e?.message ?? e).trim();
+}
+
+const DIFF_ARGS = [
+  "-c",
+  "core.quotePath=false",
+  "diff",
+  "-U0",
+  "--no-color",
+  "--no-ext-diff",
+  "--relative",
+  "--diff-filter=ACMR",
+  "--src-prefix=a/",
+  "--dst-prefix=b/",
+];
+
+/** Added/modified lines per file (paths as printed by git) from `git diff -U0` output. */
+export function parseUnifiedDiff(diff: string): Map<string, Set<number>> {
+  const out = new Map<string, Set<number>>();
+  let cur: Set<number> | null = null;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      let p = line.slice(4).trim();
+      if (p.startsWith('"') && p.endsWith('"')) p = p.slice(1, -1);
+      if (p === "/dev/null") {
+        cur = null;
+        continue;
+      }
+      p = p.replace(/^b\//, "");
+      cur = out.get(p) ?? new Set<number>();
+      out.set(p, cur);
+      continue;
+    }
+    if (!cur || !line.startsWith("@@")) continue;
+    const m = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (!m) continue;
+    const start = Number(m[1]);
+    const count = m[2] == null ? 1 : Number(m[2]);
+    for (let i = 0; i < count; i++) cur.add(start + i);
+  }
+  return out;
+}
+
+function addLines(set: ChangeSet, abs: string, lines: ChangedLines) {
+  const prev = set.get(abs);
+  if (prev === "all" || lines === "all") {
+    set.set(abs, "all");
+    return;
+  }
+  set.set(abs, new Set([...(prev ?? []), ...lines]));
+}
+
+/** Git couldn't answer a changed-files question (no repo, unknown ref). */
+export class ChangeSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChangeSetError";
+  }
+}
+
+/**
+ * Build the change set for rootDir. Throws (instead of falling back to a full
+ * scan) when rootDir is not in a git repository or `since` can't be resolved.
+ */
+export async function getChangeSet(
+  rootDir: string,
+  opts: ChangeSetOptions = {},
+): Promise<ChangeSet> {
   try {
-    const out = execSync("git diff --name-only HEAD", { cwd: rootDir, stdio: ["ignore", "pipe", "ignore"] })
-      .toString()
-      .trim();
-    if (!out) return [];
-    return out.split("\n").filter(Boolean);
-  } catch {
-    return null;
+    git(rootDir, ["rev-parse", "--is-inside-work-tree"]);
+  } catch (e) {
+    throw new ChangeSetError(
+      `Changed-file scanning needs a git repository: ${gitError(e)}`,
+    );
+  }
+
+  const kinds = new Set(opts.kinds ?? CHANGE_KINDS);
+  const diffs: string[][] = [];
+
+  if (opts.since) {
+    let base = opts.since;
+    try {
+      base = opts.mergeBase
+        ? git(rootDir, ["merge-base", opts.since, "HEAD"]).trim()
+        : git(rootDir, [
+            "rev-parse",
+            "--verify",
+            `${opts.since}^{commit}`,
+          ]).trim();
+    } catch (e) {
+      const what = opts.mergeBase
+        ? `the merge-base of ${opts.since} and HEAD`
+        : `ref ${opts.since}`;
+      throw new ChangeSetError(`Cannot resolve ${what}: ${gitError(e)}`);
+    }
+    diffs.push([base]);
+  } else {
+    let hasHead = true;
+    try {
+      git(rootDir, ["rev-parse", "--verify", "HEAD"]);
+    } catch {
+      hasHead = false;
+    }
+    // One diff against HEAD keeps line numbers in working-tree terms.
+    if (kinds.has("staged") && kinds.has("unstaged") && hasHead)
+      diffs.push(["HEAD"]);
+    else {
+      if (kinds.has("staged")) diffs.push(["--cached"]);
+      if (kinds.has("unstaged")) diffs.push([]);
+    }
+  }
+
+  const set: ChangeSet = new Map();
+  for (const args of diffs) {
+    const parsed = parseUnifiedDiff(git(rootDir, [...DIFF_ARGS, ...args]));
+    for (const [p, lines] of parsed)
+      addLines(set, path.resolve(rootDir, p), lines);
   }
+
+  if (kinds.has("untracked") || opts.since) {
+    const out = git(rootDir, [
+      "ls-files",
+      "--others",
+      "--exclude-standard",
+      "-z",
+    ]);
+    for (const p of out.split("\0").filter(Boolean))
+      addLines(set, path.resolve(rootDir, p), "all");
+  }
+
+  return set;
 }
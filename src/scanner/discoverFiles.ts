@@ -1,11 +1,16 @@
 import fg from "fast-glob";
+import ignoreModule, { type Ignore } from "ignore";
 import path from "node:path";
 import type { CheckerConfig } from "../engine/types.js";
+import { toPosix } from "../utils/path.js";
 
-export async function discoverFiles(rootDir: string, config: CheckerConfig): Promise<string[]> {
-  const patterns = ["**/*.ts", "**/*.tsx", "**/*.js", "**/*.jsx", "**/*.mjs", "**/*.cjs"];
+const ignore: () => Ignore = (ignoreModule as any).default ?? (ignoreModule as any);
+
+// .sql / .prisma for schema rules (supabase-rls-validation); code rules filter by extension
+const PATTERNS = ["**/*.ts", "**/*.tsx", "**/*.js", "**/*.jsx", "**/*.mjs", "**/*.cjs", "**/*.sql", "**/*.prisma"];
 
-  const ignore = [
+function ignorePatterns(config: CheckerConfig): string[] {
+  return [
     "**/node_modules/**",
     "**/.next/**",
     "**/dist/**",
@@ -14,7 +19,23 @@ export async function discoverFiles(rootDir: string, config: CheckerConfig): Pro
     "**/.git/**",
     ...(config.ignore ?? [])
   ];
+}
 
-  const entries = await fg(patterns, { cwd: rootDir, absolute: true, dot: true, ignore });
+export async function discoverFiles(rootDir: string, config: CheckerConfig): Promise<string[]> {
+  const entries = await fg(PATTERNS, { cwd: rootDir, absolute: true, dot: true, ignore: ignorePatterns(config) });
   return entries.map((p) => path.resolve(p));
 }
+
+/**
+ * Path-only check matching discoverFiles (for file watcher events, where the
+ * file may already be gone). Takes repo-relative paths.
+ */
+export function createFileMatcher(config: CheckerConfig): (relPath: string) => boolean {
+  const include = ignore().add(PATTERNS);
+  const exclude = ignore().add(ignorePatterns(config));
+  return (relPath) => {
+    const p = toPosix(relPath);
+    if (!p || p.startsWith("../") || path.isAbsolute(p)) return false;
+    return include.ignores(p) && !exclude.ignores(p);
+  };
+}
@@ -0,0 +1,215 @@
+import fg from "fast-glob";
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import type {
+  CheckerConfig,
+  DetectedCapability,
+  RepoDetectResult,
+  StackName,
+} from "../engine/types.js";
+import { detectRepo } from "./repoDetect.js";
+import { resolveCapabilities, stackFromCapabilities } from "./capabilities.js";
+import { toPosix } from "../utils/path.js";
+
+/**
+ * Monorepo workspaces: which directories are packages, and which stack each
+ * one is. Package globs come from (first match wins):
+ *
+ *   pnpm-workspace.yaml   packages: ["apps/*", "!apps/legacy"]
+ *   package.json          "workspaces": [...] or { "packages": [...] }
+ *   turbo.json            (no globs of its own) apps/* and packages/*
+ *
+ * or from `workspaces` in vibecheck.json. A matched directory counts when it
+ * has a package.json.
+ */
+
+export interface WorkspacePackage {
+  /** package.json name, or the repo-relative directory without one. */
+  name: string;
+  dir: string;
+  /** Repo-relative directory, e.g. "apps/web". */
+  path: string;
+  stack: StackName;
+  /** Detected in the package directory (config not applied). */
+  capabilities: DetectedCapability[];
+}
+
+/** Files one rule run covers: a package, or the files outside every package. */
+export interface ScanUnit {
+  rootDir: string;
+  stack: StackName;
+  /** Detected capabilities with config applied. */
+  capabilities: DetectedCapability[];
+  files: string[];
+  /** Unset for the repo root (and for repos without workspaces). */
+  package?: WorkspacePackage;
+}
+
+/** Package name reports use for files outside every package. */
+export const ROOT_PACKAGE = "(root)";
+
+const TURBO_DEFAULT = ["apps/*", "packages/*"];
+
+async function readJson(file: string): Promise<any> {
+  try {
+    return JSON.parse(await readFile(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// Just the `packages:` list; anything fancier than plain items is ignored.
+function pnpmPackages(yaml: string): string[] {
+  const out: string[] = [];
+  let inList = false;
+  for (const raw of yaml.split(/\r?\n/)) {
+    const line = raw.replace(/\s+#.*$/, "");
+    if (/^packages\s*:/.test(line)) {
+      const inline = /\[(.*)\]/.exec(line);
+      if (inline)
+        return inline[1]
+          .split(",")
+          .map((s) => s.trim().replace(/^["']|["']$/g, ""))
+          .filter(Boolean);
+      inList = true;
+      continue;
+    }
+    if (!inList || !line.trim()) continue;
+    const item = /^\s*-\s*(.+?)\s*$/.exec(line);
+    if (!item) break;
+    out.push(item[1].replace(/^["']|["']$/g, ""));
+  }
+  return out;
+}
+
+/** Workspace package globs declared by the repo's tooling (empty if none). */
+export async function workspaceGlobs(rootDir: string): Promise<string[]> {
+  const pnpm = path.join(rootDir, "pnpm-workspace.yaml");
+  if (existsSync(pnpm)) {
+    const globs = pnpmPackages(await readFile(pnpm, "utf8").catch(() => ""));
+    if (globs.length) return globs;
+  }
+  const pkg = await readJson(path.join(rootDir, "package.json"));
+  const ws = Array.isArray(pkg?.workspaces)
+    ? pkg.workspaces
+    : pkg?.workspaces?.packages;
+  if (Array.isArray(ws) && ws.length)
+    return ws.filter((g: unknown) => typeof g === "string");
+  if (existsSync(path.join(rootDir, "turbo.json"))) return TURBO_DEFAULT;
+  return [];
+}
+
+/**
+ * Workspace packages of the repo, sorted by path. `globs` overrides what
+ * workspaceGlobs() finds; `!pattern` entries exclude.
+ */
+export async function discoverWorkspaces(
+  rootDir: string,
+  globs?: string[],
+): Promise<WorkspacePackage[]> {
+  const patterns = globs ?? (await workspaceGlobs(rootDir));
+  const include = patterns
+    .filter((g) => !g.startsWith("!"))
+    .map((g) => g.replace(/\/+$/, ""));
+  if (!include.length) return [];
+  const dirs = await fg(include, {
+    cwd: rootDir,
+    onlyDirectories: true,
+    absolute: true,
+    ignore: [
+      "**/node_modules/**",
+      ...patterns.filter((g) => g.startsWith("!")).map((g) => g.slice(1)),
+    ],
+  });
+
+  const out: WorkspacePackage[] = [];
+  for (const dir of [...new Set(dirs.map((d) => path.resolve(d)))]) {
+    if (dir === rootDir) continue;
+    const pkg = await readJson(path.join(dir, "package.json"));
+    if (!pkg) continue;
+    const rel = toPosix(path.relative(rootDir, dir));
+    const { repo } = await detectRepo(dir);
+    out.push({
+      name: typeof pkg.name === "string" && pkg.name ? pkg.name : rel,
+      dir,
+      path: rel,
+      stack: repo.stack,
+      capabilities: repo.capabilities,
+    });
+  }
+  return out.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** discoverWorkspaces() per config: `workspaces: false` disables it, globs replace the detected ones. */
+export async function configuredWorkspaces(
+  rootDir: string,
+  config: CheckerConfig,
+): Promise<WorkspacePackage[]> {
+  if (config.workspaces === false) return [];
+  return discoverWorkspaces(
+    rootDir,
+    Array.isArray(config.workspaces) ? config.workspaces : undefined,
+  );
+}
+
+/** The innermost package containing `file`, if any. */
+export function packageOf(
+  file: string,
+  packages: WorkspacePackage[],
+): WorkspacePackage | undefined {
+  let best: WorkspacePackage | undefined;
+  for (const p of packages) {
+    if (!file.startsWith(p.dir + path.sep)) continue;
+    if (!best || p.dir.length > best.dir.length) best = p;
+  }
+  return best;
+}
+
+/**
+ * Split scanned files into scan units: one per package with files, then the
+ * root for the rest. Each gets its detected capabilities with the config's
+ * `stack` / `capabilities` applied. Without packages this is the whole repo.
+ */
+export function splitScanUnits(
+  repo: RepoDetectResult,
+  files: string[],
+  packages: WorkspacePackage[],
+  config: Pick<CheckerConfig, "stack" | "capabilities">,
+): ScanUnit[] {
+  const unit = (
+    rootDir: string,
+    detected: DetectedCapability[],
+    unitFiles: string[],
+    pkg?: WorkspacePackage,
+  ): ScanUnit => {
+    const capabilities = resolveCapabilities(detected, config);
+    return {
+      rootDir,
+      stack: stackFromCapabilities(capabilities.map((c) => c.capability)),
+      capabilities,
+      files: unitFiles,
+      ...(pkg ? { package: pkg } : {}),
+    };
+  };
+  if (!packages.length) return [unit(repo.rootDir, repo.capabilities, files)];
+
+  const byPackage = new Map<WorkspacePackage, string[]>();
+  const rest: string[] = [];
+  for (const f of files) {
+    const p = packageOf(f, packages);
+    if (!p) {
+      rest.push(f);
+      continue;
+    }
+    const list = byPackage.get(p) ?? [];
+    list.push(f);
+    byPackage.set(p, list);
+  }
+
+  const units = packages
+    .filter((p) => byPackage.has(p))
+    .map((p) => unit(p.dir, p.capabilities, byPackage.get(p)!, p));
+  if (rest.length) units.push(unit(repo.rootDir, repo.capabilities, rest));
+  return units;
+}
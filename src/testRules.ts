@@ -0,0 +1,193 @@
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+
+import type { Finding, Severity } from "./engine/types.js";
+import { parseSeverity } from "./engine/severity.js";
+import { scan } from "./scan.js";
+
+/**
+ * Fixture harness behind `vibecheck test-rules`. A fixtures directory holds
+ * mini-repos (one per subdirectory, each scanned like a real repo with its
+ * own package.json / vibecheck.json) whose files say which findings they
+ * expect:
+ *
+ *   const rows = await prisma.invoice.findMany(); // expect: prisma-missing-tenant-filter info
+ *
+ *   // expect: next-client-env-leak
+ *   const key = process.env.STRIPE_SECRET_KEY;
+ *
+ *   // expect-file: next-api-auth-guard high
+ *
+ * A trailing annotation applies to its own line, one on a line of its own to
+ * the next line that isn't an annotation, and `expect-file` to the file as a
+ * whole. The severity is optional; several expectations can be separated by
+ * commas. Works after `//`, `/*`, `#` and `--` comment markers.
+ */
+
+export interface Expectation {
+  file: string;
+  /** Expected finding line; null for `expect-file`. */
+  line: number | null;
+  ruleId: string;
+  severity?: Severity;
+  /** Line of the annotation itself. */
+  at: number;
+}
+
+export interface FixtureResult {
+  name: string;
+  dir: string;
+  passed: boolean;
+  expected: number;
+  /** Expectations no finding matched. */
+  missing: Expectation[];
+  /** Findings no expectation matched. */
+  unexpected: Finding[];
+  /** Config or scan error (the fixture fails). */
+  error?: string;
+}
+
+export interface RuleTestOptions {
+  /** Only compare these rules; an id ending in "/" matches a plugin namespace. */
+  rules?: string[];
+  /** Only run fixtures whose name includes this string. */
+  filter?: string;
+}
+
+const EXPECT_RE =
+  /(?:\/\/|\/\*|#|--)\s*expect(-file)?:\s*(.+?)\s*(?:\*\/\s*)?$/;
+
+/** Read the `expect:` annotations of one file. */
+export function parseExpectations(file: string, code: string): Expectation[] {
+  const lines = code.split(/\r?\n/);
+  const out: Expectation[] = [];
+  lines.forEach((text, i) => {
+    const m = EXPECT_RE.exec(text);
+    if (!m) return;
+    const ownLine = text.slice(0, m.index).trim() === "";
+    let line: number | null = i + 1;
+    if (m[1]) line = null;
+    else if (ownLine) {
+      let next = i + 1;
+      while (
+        next < lines.length &&
+        EXPECT_RE.test(lines[next]) &&
+        lines[next].trim().match(/^(?:\/\/|\/\*|#|--)/)
+      )
+        next++;
+      line = next + 1;
+    }
+    for (const part of m[2].split(",")) {
+      const [ruleId, sev] = part.trim().split(/\s+/);
+      if (!ruleId) continue;
+      out.push({
+        file,
+        line,
+        ruleId,
+        severity: parseSeverity(sev),
+        at: i + 1,
+      });
+    }
+  });
+  return out;
+}
+
+function ruleSelected(ruleId: string, rules?: string[]): boolean {
+  if (!rules?.length) return true;
+  return rules.some((r) =>
+    r.endsWith("/") ? ruleId.startsWith(r) : ruleId === r,
+  );
+}
+
+/** Match findings to expectations; line-specific expectations first. */
+export function compareFindings(
+  expectations: Expectation[],
+  findings: Finding[],
+): { missing: Expectation[]; unexpected: Finding[] } {
+  const left = [...findings];
+  const missing: Expectation[] = [];
+  const ordered = [
+    ...expectations.filter((e) => e.line != null),
+    ...expectations.filter((e) => e.line == null),
+  ];
+  for (const e of ordered) {
+    const i = left.findIndex(
+      (f) =>
+        path.resolve(f.file) === path.resolve(e.file) &&
+        f.ruleId === e.ruleId &&
+        (e.line == null || (f.line ?? 1) === e.line) &&
+        (!e.severity || f.severity === e.severity),
+    );
+    if (i >= 0) left.splice(i, 1);
+    else missing.push(e);
+  }
+  return { missing, unexpected: left };
+}
+
+async function fixtureDirs(dir: string): Promise<string[]> {
+  const isRepo = (d: string) =>
+    [
+      "package.json",
+      "vibecheck.json",
+      "vibecheck.config.json",
+      ".vibecheckrc.json",
+    ].some((f) => existsSync(path.join(d, f)));
+  if (isRepo(dir)) return [dir];
+  const entries = await readdir(dir, { withFileTypes: true });
+  return entries
+    .filter((e) => e.isDirectory() && !e.name.startsWith("."))
+    .map((e) => path.join(dir, e.name))
+    .sort();
+}
+
+/** Scan each fixture repo under `dir` and diff its findings against its annotations. */
+export async function runRuleTests(
+  dir: string,
+  opts: RuleTestOptions = {},
+): Promise<FixtureResult[]> {
+  const root = path.resolve(process.cwd(), dir);
+  const results: FixtureResult[] = [];
+
+  for (const fixture of await fixtureDirs(root)) {
+    const name = path.relative(root, fixture) || path.basename(fixture);
+    if (opts.filter && !name.includes(opts.filter)) continue;
+
+    const base = {
+      name,
+      dir: fixture,
+      expected: 0,
+      missing: [],
+      unexpected: [],
+    };
+    let result;
+    try {
+      result = await scan({ rootDir: fixture, cache: false, jobs: 1 });
+    } catch (e: any) {
+      results.push({ ...base, passed: false, error: String(e?.message ?? e) });
+      continue;
+    }
+
+    const expectations: Expectation[] = [];
+    for (const file of result.files) {
+      const code = await result.getSource(file);
+      expectations.push(
+        ...parseExpectations(file, code).filter((e) =>
+          ruleSelected(e.ruleId, opts.rules),
+        ),
+      );
+    }
+    const findings = result.findings.filter((f) =>
+      ruleSelected(f.ruleId, opts.rules),
+    );
+    const { missing, unexpected } = compareFindings(expectations, findings);
+    results.push({
+      ...base,
+      expected: expectations.length,
+      missing,
+      unexpected,
+      passed: !missing.length && !unexpected.length,
+    });
+  }
+  return results;
+}
@@ -1,18 +1,40 @@
-import { parse } from "@babel/parser";
+import { parse, type ParserPlugin } from "@babel/parser";
+
+const BASE_PLUGINS: ParserPlugin[] = [
+  "decorators-legacy",
+  "classProperties",
+  "classPrivateProperties",
+  "classPrivateMethods",
+  "dynamicImport",
+  "importAssertions",
+  "topLevelAwait"
+];
+
+/**
+ * Parse TS/JS with Babel. Pass the filename so `.ts` files are parsed without
+ * JSX (otherwise `<T>(x) => x` and `<T>value` casts fail).
+ * errorRecovery keeps an AST for files with minor syntax errors; those are
+ * listed in `ast.errors`.
+ */
+export function parseTs(code: string, filename = "file.tsx") {
+  const isTs = /\.(ts|mts|cts)$/.test(filename);
+  const isTsx = /\.tsx$/.test(filename);
+  const plugins: ParserPlugin[] = [
+    ...(isTs || isTsx ? (["typescript"] as ParserPlugin[]) : []),
+    ...(isTs ? [] : (["jsx"] as ParserPlugin[])),
+    ...BASE_PLUGINS
+  ];
 
-export function parseTs(code: string) {
   return parse(code, {
     sourceType: "module",
-    plugins: [
-      "typescript",
-      "jsx",
-      "decorators-legacy",
-      "classProperties",
-      "classPrivateProperties",
-      "classPrivateMethods",
-      "dynamicImport",
-      "importAssertions",
-      "topLevelAwait"
-    ]
+    errorRecovery: true,
+    sourceFilename: filename,
+    plugins
   });
 }
+
+export type Ast = ReturnType<typeof parseTs>;
+
+export function isParsableFile(p: string): boolean {
+  return /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/.test(p);
+}
@@ -0,0 +1,116 @@
+/**
+ * Minimal unified diff (`diff -u` style) for previews. Lines are compared
+ * after trimming the common prefix/suffix; very large differing regions are
+ * shown as one replaced block instead of running an O(n*m) LCS.
+ */
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffLines(a: string[], b: string[]): Op[] {
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (
+    suf < a.length - pre &&
+    suf < b.length - pre &&
+    a[a.length - 1 - suf] === b[b.length - 1 - suf]
+  )
+    suf++;
+
+  const am = a.slice(pre, a.length - suf);
+  const bm = b.slice(pre, b.length - suf);
+  const mid: Op[] = [];
+
+  if (am.length * bm.length > MAX_LCS_CELLS) {
+    mid.push(...am.map((line) => ({ kind: "-" as const, line })));
+    mid.push(...bm.map((line) => ({ kind: "+" as const, line })));
+  } else {
+    // lcs[i][j] = LCS length of am[i..] and bm[j..]
+    const w = bm.length + 1;
+    const lcs = new Uint32Array((am.length + 1) * w);
+    for (let i = am.length - 1; i >= 0; i--) {
+      for (let j = bm.length - 1; j >= 0; j--) {
+        lcs[i * w + j] =
+          am[i] === bm[j]
+            ? lcs[(i + 1) * w + j + 1] + 1
+            : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < am.length || j < bm.length) {
+      if (i < am.length && j < bm.length && am[i] === bm[j]) {
+        mid.push({ kind: " ", line: am[i] });
+        i++;
+        j++;
+      } else if (
+        i < am.length &&
+        (j >= bm.length || lcs[(i + 1) * w + j] >= lcs[i * w + j + 1])
+      ) {
+        mid.push({ kind: "-", line: am[i++] });
+      } else {
+        mid.push({ kind: "+", line: bm[j++] });
+      }
+    }
+  }
+
+  return [
+    ...a.slice(0, pre).map((line) => ({ kind: " " as const, line })),
+    ...mid,
+    ...a.slice(a.length - suf).map((line) => ({ kind: " " as const, line })),
+  ];
+}
+
+/** Unified diff of two texts; "" when they're equal. */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  fromName: string,
+  toName = fromName,
+  context = 3,
+): string {
+  if (before === after) return "";
+  const a = before.split("\n");
+  const b = after.split("\n");
+  // a final newline in both isn't an extra (empty) line
+  if (a.at(-1) === "" && b.at(-1) === "") {
+    a.pop();
+    b.pop();
+  }
+  const ops = diffLines(a, b);
+
+  const out = [`--- ${fromName}`, `+++ ${toName}`];
+  let k = 0;
+  while (k < ops.length) {
+    // next change, then extend the hunk while changes are within 2*context
+    while (k < ops.length && ops[k].kind === " ") k++;
+    if (k >= ops.length) break;
+    const start = Math.max(0, k - context);
+    let end = k;
+    let lastChange = k;
+    while (end < ops.length && end - lastChange <= 2 * context) {
+      if (ops[end].kind !== " ") lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    // 1-based start lines in each file
+    let aLine = 1;
+    let bLine = 1;
+    for (let i = 0; i < start; i++) {
+      if (ops[i].kind !== "+") aLine++;
+      if (ops[i].kind !== "-") bLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const aCount = hunk.filter((o) => o.kind !== "+").length;
+    const bCount = hunk.filter((o) => o.kind !== "-").length;
+    out.push(
+      `@@ -${aCount ? aLine : aLine - 1},${aCount} +${bCount ? bLine : bLine - 1},${bCount} @@`,
+      ...hunk.map((o) => `${o.kind}${o.line}`),
+    );
+    k = end;
+  }
+  return out.join("\n");
+}
@@ -3,7 +3,7 @@
 // Goal:
 // - Discover auth guard function names from code (exported functions/consts, and common symbols).
 // - Discover "public/proxy API route" hints from inline comments.
-// - Merge user-configured allowlists from vibecheck.json (ctx.config.auth.*) on top.
+// - Merge user-configured allowlists from vibecheck.json (auth.*, as ctx.config.authHints) on top.
 // - Return a single DiscoveredAuth object that rules can consume.
 //
 // Inline hint examples (anywhere, but usually middleware / proxy / docs):
@@ -12,7 +12,6 @@
 //   // vibecheck:proxy-api-prefix /api/stripe/webhook
 
 import type { RuleContext } from "../engine/types.js";
-import { parseTs } from "./ast.js";
 import { toPosix } from "./path.js";
 
 /** Common guard-ish symbols across NextAuth/Clerk/custom stacks. */
@@ -55,15 +54,9 @@ function normalizeApiPath(p: string): string {
 /**
  * Discover guard symbols from a single file's code.
  * - Regex-based for speed/robustness
- * - parseTs() used only as a lightweight validation attempt (ignore failures)
  */
 export function discoverAuthGuardsFromCode(code: string): string[] {
   const guards = new Set<string>();
-  try {
-    parseTs(code);
-  } catch {
-    // ignore parse errors; still do regex checks
-  }
 
   const reFn = /export\s+(?:async\s+)?function\s+([A-Za-z0-9_]+)/g;
   let m: RegExpExecArray | null;
@@ -133,6 +126,25 @@ function discoverPublicApiHints(code: string) {
   return { publicApiExact, publicApiPrefix, proxyApiPrefix };
 }
 
+/**
+ * Everything one file contributes to discovery, as a comparable string (""
+ * when nothing). Watch mode re-runs discovery only when this changes.
+ */
+export function authSignature(relPath: string, code: string): string {
+  const p = toPosix(relPath);
+  if (!/\.(ts|tsx|js|jsx)$/.test(p) || !shouldScanFileForGuards(p)) return "";
+  const guards = discoverAuthGuardsFromCode(code);
+  const hints = discoverPublicApiHints(code);
+  const proxy = inferProxyPrefixesFromPath(p);
+  if (
+    !guards.length &&
+    !proxy.length &&
+    !Object.values(hints).some((h) => h.length)
+  )
+    return "";
+  return JSON.stringify({ guards: guards.sort(), hints, proxy });
+}
+
 /**
  * Optional heuristic proxy-ish route prefixes (safe defaults).
  * These are NOT skipped—just downgraded to INFO when missing guard.
@@ -170,9 +182,9 @@ function mergeWithUserConfig(
   discovered: DiscoveredAuth,
   ctx: RuleContext,
 ): DiscoveredAuth {
-  const cfgAuth = (ctx.config as any)?.auth ?? {};
+  const cfgAuth = ctx.config.authHints ?? {};
 
-  const cfgGuards = Array.isArray(cfgAuth.guards) ? cfgAuth.guards : [];
+  const cfgGuards: string[] = Array.isArray(cfgAuth.guards) ? cfgAuth.guards : [];
   const cfgPublicExact = Array.isArray(cfgAuth.publicApiExact)
     ? cfgAuth.publicApiExact
     : [];
@@ -224,7 +236,7 @@ export async function discoverAuthGuards(
     if (!/\.(ts|tsx|js|jsx)$/.test(p)) continue;
     if (!shouldScanFileForGuards(p)) continue;
 
-    const code = await ctx.readFile(abs);
+    const code = await ctx.getSource(abs);
     if (!code) continue;
 
     // Discover guard symbols
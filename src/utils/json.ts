@@ -0,0 +1,159 @@
+// utils/json.ts
+//
+// Small JSON parser that remembers where each value starts, so config
+// errors can point at `vibecheck.json:12:5` instead of just a key path.
+// Pointers are JSON Pointers ("/ruleOverrides/next-async-waterfall/severity").
+
+export type JsonLocation = { line: number; col: number };
+
+export class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly col: number,
+  ) {
+    super(`${message} (line ${line}, col ${col})`);
+    this.name = "JsonSyntaxError";
+  }
+}
+
+export function lineColAt(text: string, offset: number): JsonLocation {
+  let line = 1;
+  let last = -1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === "\n") {
+      line++;
+      last = i;
+    }
+  }
+  return { line, col: offset - last };
+}
+
+export function escapePointer(key: string): string {
+  return key.replaceAll("~", "~0").replaceAll("/", "~1");
+}
+
+export function parseJsonWithLocations(text: string): {
+  value: unknown;
+  locate: (pointer: string) => JsonLocation | undefined;
+} {
+  const offsets = new Map<string, number>();
+  let i = 0;
+
+  const fail = (msg: string): never => {
+    const { line, col } = lineColAt(text, i);
+    throw new JsonSyntaxError(msg, line, col);
+  };
+
+  const ws = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const str = (): string => {
+    const start = i;
+    i++; // opening quote
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === "\\") {
+        i += 2;
+        continue;
+      }
+      if (ch === '"') {
+        i++;
+        try {
+          return JSON.parse(text.slice(start, i));
+        } catch {
+          i = start;
+          return fail("Invalid string");
+        }
+      }
+      if (ch === "\n") break;
+      i++;
+    }
+    i = start;
+    return fail("Unterminated string");
+  };
+
+  const value = (ptr: string): unknown => {
+    ws();
+    offsets.set(ptr, i);
+    const ch = text[i];
+
+    if (ch === "{") {
+      i++;
+      const obj: Record<string, unknown> = {};
+      ws();
+      if (text[i] === "}") {
+        i++;
+        return obj;
+      }
+      for (;;) {
+        ws();
+        if (text[i] !== '"') fail("Expected property name");
+        const keyAt = i;
+        const key = str();
+        ws();
+        if (text[i] !== ":") fail(`Expected ':' after "${key}"`);
+        i++;
+        const child = `${ptr}/${escapePointer(key)}`;
+        obj[key] = value(child);
+        // point key errors at the key itself, not its value
+        offsets.set(child, keyAt);
+        ws();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === "}") {
+          i++;
+          return obj;
+        }
+        fail("Expected ',' or '}'");
+      }
+    }
+
+    if (ch === "[") {
+      i++;
+      const arr: unknown[] = [];
+      ws();
+      if (text[i] === "]") {
+        i++;
+        return arr;
+      }
+      for (;;) {
+        arr.push(value(`${ptr}/${arr.length}`));
+        ws();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === "]") {
+          i++;
+          return arr;
+        }
+        fail("Expected ',' or ']'");
+      }
+    }
+
+    if (ch === '"') return str();
+
+    const m = /^(?:-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(
+      text.slice(i, i + 64),
+    );
+    if (!m) return fail(ch == null ? "Unexpected end of input" : `Unexpected token '${ch}'`);
+    i += m[0].length;
+    return JSON.parse(m[0]);
+  };
+
+  const v = value("");
+  ws();
+  if (i < text.length) fail("Unexpected content after JSON value");
+
+  return {
+    value: v,
+    locate: (pointer) => {
+      const off = offsets.get(pointer);
+      return off == null ? undefined : lineColAt(text, off);
+    },
+  };
+}
@@ -14,6 +14,15 @@ export function startStatusLine(opts: StatusOptions = {}) {
   // ✅ Write status to STDERR so JSON on STDOUT stays clean for jq/CI
   const stream = process.stderr;
 
+  // CI logs / pipes: no spinner frames, just the final message
+  if (!stream.isTTY) {
+    return {
+      stop: (finalMessage?: string) => {
+        if (finalMessage) stream.write(finalMessage + "\n");
+      },
+    };
+  }
+
   let i = 0;
   const render = () => {
     const w = words[i % words.length];
@@ -0,0 +1,2 @@
+// Keep in sync with package.json "version".
+export const VERSION = "0.3.0";